@@ -1,6 +1,12 @@
 module.exports = {
     testEnvironment: 'node',
+    setupFilesAfterEnv: ['<rootDir>/src/jest.ts'],
     transform: {
-        '^.+\\.(t|j)s?$': '@swc/jest',
+        '^.+\\.(t|j)s?$': ['@swc/jest', {
+            jsc: {
+                parser: { syntax: 'typescript', decorators: true },
+                transform: { decoratorVersion: '2022-03' },
+            },
+        }],
     },
 }
@@ -0,0 +1,152 @@
+import { AsyncOption } from './async_option';
+import { None, Option, Some } from './option';
+
+describe('AsyncOption', () => {
+    describe('Construction', () => {
+        it('from_option wraps a Some value', async () => {
+            const option = await AsyncOption.from_option(Some(5));
+            expect(option).toBeSome(5);
+        });
+
+        it('from_option wraps a promise of an Option', async () => {
+            const option = await AsyncOption.from_option(Promise.resolve(None<number>()));
+            expect(option).toBeNone();
+        });
+
+        it('from_promise maps resolution to Some', async () => {
+            const option = await AsyncOption.from_promise(Promise.resolve(5));
+            expect(option).toBeSome(5);
+        });
+
+        it('from_promise maps rejection to None by default', async () => {
+            const option = await AsyncOption.from_promise(Promise.reject(new Error("Rejected")));
+            expect(option).toBeNone();
+        });
+
+        it('from_promise rethrows rejections with the throw strategy', async () => {
+            const option = AsyncOption.from_promise(Promise.reject(new Error("Rejected")), 'throw');
+            await expect(option.then(o => o)).rejects.toThrow("Rejected");
+        });
+
+        it('from_promise keeps the rejection reason with the result strategy', async () => {
+            const result = await AsyncOption.from_promise<number, Error>(Promise.reject(new Error("Rejected")), 'result');
+            expect(result.unwrap_err().message).toBe("Rejected");
+        });
+
+        it('from_promise wraps the resolved value in Ok(Some) with the result strategy', async () => {
+            const result = await AsyncOption.from_promise(Promise.resolve(5), 'result');
+            expect(result).toBeOkWith(Some(5));
+        });
+    });
+
+    describe('Check Methods', () => {
+        it('is_some and is_none resolve to the variant', async () => {
+            expect(await AsyncOption.from_option(Some(5)).is_some()).toBe(true);
+            expect(await AsyncOption.from_option(None()).is_some()).toBe(false);
+            expect(await AsyncOption.from_option(None()).is_none()).toBe(true);
+        });
+
+        it('is_some_and accepts an async predicate', async () => {
+            expect(await AsyncOption.from_option(Some(5)).is_some_and(async x => x > 3)).toBe(true);
+            expect(await AsyncOption.from_option(None<number>()).is_some_and(async () => true)).toBe(false);
+        });
+    });
+
+    describe('Transform Methods', () => {
+        it('map accepts sync and async callbacks', async () => {
+            const option = await AsyncOption.from_option(Some(5))
+                .map(x => x * 2)
+                .map(async x => x + 1);
+            expect(option).toBeSome(11);
+        });
+
+        it('map does not call the callback for None', async () => {
+            const spy = jest.fn();
+            const option = await AsyncOption.from_option(None()).map(spy);
+            expect(spy).not.toHaveBeenCalled();
+            expect(option).toBeNone();
+        });
+
+        it('map_or resolves to the mapped or default value', async () => {
+            expect(await AsyncOption.from_option(Some(5)).map_or(0, async x => x * 2)).toBe(10);
+            expect(await AsyncOption.from_option(None<number>()).map_or(0, x => x * 2)).toBe(0);
+        });
+
+        it('filter accepts an async predicate', async () => {
+            expect(await AsyncOption.from_option(Some(5)).filter(async x => x > 3)).toBeSome(5);
+            expect(await AsyncOption.from_option(Some(2)).filter(async x => x > 3)).toBeNone();
+        });
+
+        it('inspect awaits the callback and passes the Option through', async () => {
+            const seen: number[] = [];
+            const option = await AsyncOption.from_option(Some(5)).inspect(async x => {
+                seen.push(x);
+            });
+            expect(seen).toEqual([5]);
+            expect(option).toBeSome(5);
+        });
+    });
+
+    describe('Combine Methods', () => {
+        it('and returns the passed Option if Some', async () => {
+            expect(await AsyncOption.from_option(Some(5)).and(Some("Hello"))).toBeSome("Hello");
+            expect(await AsyncOption.from_option(None()).and(Some("Hello"))).toBeNone();
+        });
+
+        it('and_then chains lookups without nested awaits', async () => {
+            const users = new Map([[1, { name: "Ferris" }]]);
+            const find_user = async (id: number) => users.get(id);
+
+            const found = await AsyncOption.from_option(Some(1))
+                .and_then(id => AsyncOption.from_promise(find_user(id)))
+                .and_then(async user => user ? Some(user.name) : None<string>());
+            expect(found).toBeSome("Ferris");
+
+            const missing = await AsyncOption.from_option(Some(2))
+                .and_then(async id => {
+                    const user = await find_user(id);
+                    return user ? Some(user) : None<{ name: string }>();
+                });
+            expect(missing).toBeNone();
+        });
+
+        it('or and or_else fall back for None', async () => {
+            expect(await AsyncOption.from_option(None<number>()).or(Some(10))).toBeSome(10);
+            expect(await AsyncOption.from_option(Some(5)).or(Some(10))).toBeSome(5);
+            expect(await AsyncOption.from_option(None<number>()).or_else(async () => Some(10))).toBeSome(10);
+        });
+
+        it('or_else does not call the callback for Some', async () => {
+            const spy = jest.fn();
+            const option = await AsyncOption.from_option(Some(5)).or_else(spy);
+            expect(spy).not.toHaveBeenCalled();
+            expect(option).toBeSome(5);
+        });
+
+        it('xor resolves to the Option that is Some', async () => {
+            expect(await AsyncOption.from_option(Some(5)).xor(Some(10))).toBeNone();
+            expect(await AsyncOption.from_option(None<number>()).xor(Promise.resolve(Some(10)))).toBeSome(10);
+        });
+    });
+
+    describe('Utility Methods', () => {
+        it('unwrap rejects for None', async () => {
+            await expect(AsyncOption.from_option(None()).unwrap()).rejects.toThrow();
+        });
+
+        it('expect rejects with the provided message for None', async () => {
+            await expect(AsyncOption.from_option(None()).expect("Expected a value!")).rejects.toThrow("Expected a value!");
+        });
+
+        it('unwrap_or and unwrap_or_else resolve to the value or a default', async () => {
+            expect(await AsyncOption.from_option(Some(5)).unwrap_or(0)).toBe(5);
+            expect(await AsyncOption.from_option(None<number>()).unwrap_or(0)).toBe(0);
+            expect(await AsyncOption.from_option(None<number>()).unwrap_or_else(async () => 7)).toBe(7);
+        });
+
+        it('unwrap_or_default resolves to null for None', async () => {
+            const option: Option<number> = None();
+            expect(await AsyncOption.from_option(option).unwrap_or_default()).toBe(null);
+        });
+    });
+});
@@ -0,0 +1,242 @@
+import { AsyncResult } from './async_result';
+import { Option, OptionSome, OptionNone } from './option';
+
+type MaybePromise<T> = T | PromiseLike<T>;
+
+/**
+ * Determines what happens when the promise wrapped by an `AsyncOption` rejects:
+ * - `'none'` maps the rejection to `None`, discarding the reason.
+ * - `'throw'` rethrows the rejection, so awaiting the `AsyncOption` rejects as well.
+ * - `'result'` produces an `AsyncResult<Option<T>, E>` carrying the rejection reason as `Err`.
+ */
+export type RejectionStrategy = 'none' | 'throw' | 'result';
+
+/**
+ * A thenable wrapper around `Promise<Option<T>>` which exposes the `Option` API,
+ * so that optional lookups can be chained without awaiting in between.
+ *
+ * Usage Example:
+ * const name = await AsyncOption.from_promise(find_user(id), 'throw')
+ *     .and_then(user => option_from_nullable(user.name))
+ *     .unwrap_or("anonymous");
+ */
+export class AsyncOption<T> implements PromiseLike<Option<T>> {
+    private readonly _promise: Promise<Option<T>>;
+
+    constructor(promise: PromiseLike<Option<T>>) {
+        this._promise = Promise.resolve(promise);
+    }
+
+    /**
+     * Wraps an existing `Option`, or a promise resolving to one, in an `AsyncOption`.
+     * @param option The `Option` (or promise of an `Option`) to wrap.
+     * @returns An `AsyncOption` resolving to the given `Option`.
+     *
+     * Usage Example:
+     * const opt = AsyncOption.from_option(Some(5));
+     * const mapped = await opt.map(async x => x * 2); // Some(10)
+     */
+    static from_option<T>(option: MaybePromise<Option<T>>): AsyncOption<T> {
+        return new AsyncOption<T>(Promise.resolve(option));
+    }
+
+    /**
+     * Converts a promise into an `AsyncOption`, mapping resolution to `Some`. Rejections are handled
+     * according to `on_reject` (see `RejectionStrategy`); with `'result'` an `AsyncResult` is returned instead.
+     * @param promise The promise to convert.
+     * @param on_reject How to handle a rejection, defaults to `'none'`.
+     * @returns An `AsyncOption`, or an `AsyncResult<Option<T>, E>` when `on_reject` is `'result'`.
+     *
+     * Usage Example:
+     * const opt = AsyncOption.from_promise(Promise.reject(new Error("Timeout"))); // None
+     * const strict = AsyncOption.from_promise(Promise.reject(new Error("Timeout")), 'throw'); // rejects
+     * const result = AsyncOption.from_promise<User, Error>(find_user(id), 'result'); // Err(Error("Timeout"))
+     */
+    static from_promise<T>(promise: PromiseLike<T>, on_reject?: 'none' | 'throw'): AsyncOption<T>;
+    static from_promise<T, E = Error>(promise: PromiseLike<T>, on_reject: 'result'): AsyncResult<Option<T>, E>;
+    static from_promise<T, E = Error>(
+        promise: PromiseLike<T>,
+        on_reject: RejectionStrategy = 'none',
+    ): AsyncOption<T> | AsyncResult<Option<T>, E> {
+        const option = Promise.resolve(promise).then(value => new OptionSome<T>(value) as Option<T>);
+
+        switch (on_reject) {
+            case 'none':
+                return new AsyncOption<T>(option.catch(() => new OptionNone<T>()));
+            case 'throw':
+                return new AsyncOption<T>(option);
+            case 'result':
+                return AsyncResult.from_promise<Option<T>, E>(option);
+        }
+    }
+
+    then<R1 = Option<T>, R2 = never>(
+        onfulfilled?: ((value: Option<T>) => R1 | PromiseLike<R1>) | null,
+        onrejected?: ((reason: any) => R2 | PromiseLike<R2>) | null,
+    ): Promise<R1 | R2> {
+        return this._promise.then(onfulfilled, onrejected);
+    }
+
+    private chain<U>(fn: (option: Option<T>) => MaybePromise<Option<U>>): AsyncOption<U> {
+        return new AsyncOption<U>(this._promise.then(fn));
+    }
+
+    private resolve<U>(fn: (option: Option<T>) => MaybePromise<U>): Promise<U> {
+        return this._promise.then(fn);
+    }
+
+    /**
+     * Resolves to true if the Option is Some.
+     */
+    is_some(): Promise<boolean> {
+        return this.resolve(option => option.is_some());
+    }
+
+    /**
+     * Resolves to true if the Option is Some and the contained value passes the (possibly async) predicate.
+     *
+     * Usage Example:
+     * const big = await AsyncOption.from_option(Some(5)).is_some_and(async x => x > 3); // true
+     */
+    is_some_and(f: (arg: T) => MaybePromise<boolean>): Promise<boolean> {
+        return this.resolve(option => option.is_some() ? f(option.value) : false);
+    }
+
+    /**
+     * Resolves to true if the Option is None.
+     */
+    is_none(): Promise<boolean> {
+        return this.resolve(option => option.is_none());
+    }
+
+    /**
+     * Resolves to the contained value, rejecting with the provided message if the Option is None.
+     */
+    expect(msg: string): Promise<T> {
+        return this.resolve(option => option.expect(msg));
+    }
+
+    /**
+     * Transforms the contained value with a (possibly async) mapping function.
+     *
+     * Usage Example:
+     * const mapped = AsyncOption.from_option(Some(5)).map(async x => x * 2); // Some(10)
+     */
+    map<U>(fn: (arg: T) => MaybePromise<U>): AsyncOption<U> {
+        return this.chain(async option => option.is_some()
+            ? new OptionSome<U>(await fn(option.value))
+            : new OptionNone<U>());
+    }
+
+    /**
+     * Applies a (possibly async) function to the contained value if Some, otherwise resolves to the default.
+     */
+    map_or<U>(defaultVal: U, fn: (arg: T) => MaybePromise<U>): Promise<U> {
+        return this.resolve(option => option.is_some() ? fn(option.value) : defaultVal);
+    }
+
+    /**
+     * Resolves to the passed Option if this Option is Some, else to None.
+     */
+    and<U>(opt: MaybePromise<Option<U>>): AsyncOption<U> {
+        return this.chain(option => option.is_some() ? opt : new OptionNone<U>());
+    }
+
+    /**
+     * Calls the (possibly async) function with the contained value if Some, otherwise resolves to None.
+     * The function may return an `Option`, a promise of an `Option` or another `AsyncOption`.
+     *
+     * Usage Example:
+     * const user = AsyncOption.from_option(Some(id)).and_then(id => AsyncOption.from_promise(find_user(id)));
+     */
+    and_then<U>(fn: (arg: T) => MaybePromise<Option<U>>): AsyncOption<U> {
+        return this.chain(option => option.is_some() ? fn(option.value) : new OptionNone<U>());
+    }
+
+    /**
+     * Resolves to the passed Option if this Option is None, else to this Option.
+     */
+    or<U>(opt: MaybePromise<Option<U>>): AsyncOption<T | U> {
+        return this.chain<T | U>(option => option.is_none() ? opt : option);
+    }
+
+    /**
+     * Calls the (possibly async) function if this Option is None, else resolves to this Option.
+     *
+     * Usage Example:
+     * const user = AsyncOption.from_promise(cache.get(id)).or_else(() => AsyncOption.from_promise(db.get(id)));
+     */
+    or_else<U>(fn: () => MaybePromise<Option<U>>): AsyncOption<T | U> {
+        return this.chain<T | U>(option => option.is_none() ? fn() : option);
+    }
+
+    /**
+     * Resolves to None if both this and the passed Option are Some, otherwise to the Option that is Some.
+     */
+    xor(optb: MaybePromise<Option<T>>): AsyncOption<T> {
+        return this.chain(async option => option.xor(await optb));
+    }
+
+    /**
+     * Keeps the contained value only if it passes the (possibly async) predicate.
+     */
+    filter(predicate: (arg: T) => MaybePromise<boolean>): AsyncOption<T> {
+        return this.chain(async option => option.is_some() && await predicate(option.value)
+            ? option
+            : new OptionNone<T>());
+    }
+
+    /**
+     * Calls the (possibly async) function with the contained value if Some, then resolves to the unmodified Option.
+     */
+    inspect(f: (arg: T) => MaybePromise<void>): AsyncOption<T> {
+        return this.chain(async option => {
+            if (option.is_some()) {
+                await f(option.value);
+            }
+
+            return option;
+        });
+    }
+
+    /**
+     * Resolves to the contained value, rejecting if the Option is None.
+     */
+    unwrap(): Promise<T> {
+        return this.resolve(option => option.unwrap());
+    }
+
+    /**
+     * Resolves to the contained value if Some, else to the provided alternative.
+     */
+    unwrap_or(optb: T): Promise<T> {
+        return this.resolve(option => option.unwrap_or(optb));
+    }
+
+    /**
+     * Resolves to the contained value if Some, else computes it from a (possibly async) function.
+     */
+    unwrap_or_else(fn: () => MaybePromise<T>): Promise<T> {
+        return this.resolve(option => option.is_some() ? option.value : fn());
+    }
+
+    /**
+     * Resolves to the contained value if Some, otherwise the default value for the type.
+     */
+    unwrap_or_default(): Promise<T | null> {
+        return this.resolve(option => option.unwrap_or_default());
+    }
+
+    /**
+     * Exhaustively matches on the Option once it resolves; handlers may be sync or async.
+     *
+     * Usage Example:
+     * const name = await AsyncOption.from_promise(find_user(id)).match({
+     *   Some: async user => user.name,
+     *   None: () => "anonymous",
+     * });
+     */
+    match<A, B>(arms: { Some: (value: T) => MaybePromise<A>; None: () => MaybePromise<B> }): Promise<A | B> {
+        return this.resolve<A | B>(option => option.is_some() ? arms.Some(option.value) : arms.None());
+    }
+}
@@ -0,0 +1,171 @@
+import { AsyncResult } from './async_result';
+import { Err, Ok, Result } from './result';
+
+describe('AsyncResult', () => {
+    describe('Construction', () => {
+        it('from_result wraps an Ok value', async () => {
+            const result = await AsyncResult.from_result(Ok(5));
+            expect(result).toBeOkWith(5);
+        });
+
+        it('from_result wraps a promise of a Result', async () => {
+            const result = await AsyncResult.from_result(Promise.resolve(Err("Error")));
+            expect(result).toBeErrWith("Error");
+        });
+
+        it('from_promise maps resolution to Ok', async () => {
+            const result = await AsyncResult.from_promise(Promise.resolve(42));
+            expect(result).toBeOkWith(42);
+        });
+
+        it('from_promise maps rejection to Err', async () => {
+            const result = await AsyncResult.from_promise(Promise.reject(new Error("Rejected")));
+            expect(result).toBeErr();
+            expect(result.unwrap_err().message).toBe("Rejected");
+        });
+
+        it('from_async captures the resolved value', async () => {
+            const result = await AsyncResult.from_async(async () => 42);
+            expect(result).toBeOkWith(42);
+        });
+
+        it('from_async captures synchronous throws', async () => {
+            const result = await AsyncResult.from_async<number, Error>(() => {
+                throw new Error("Thrown");
+            });
+            expect(result.unwrap_err().message).toBe("Thrown");
+        });
+
+        it('can be awaited inside an async function returning a Result', async () => {
+            const fn = async (): Promise<Result<number, string>> => AsyncResult.from_result(Ok(5));
+            expect(await fn()).toBeOkWith(5);
+        });
+    });
+
+    describe('Core Methods', () => {
+        it('is_ok and is_err resolve to the variant', async () => {
+            expect(await AsyncResult.from_result(Ok(5)).is_ok()).toBe(true);
+            expect(await AsyncResult.from_result(Ok(5)).is_err()).toBe(false);
+            expect(await AsyncResult.from_result(Err("Error")).is_ok()).toBe(false);
+            expect(await AsyncResult.from_result(Err("Error")).is_err()).toBe(true);
+        });
+
+        it('ok and err resolve to Options', async () => {
+            expect(await AsyncResult.from_result(Ok(5)).ok()).toBeSome(5);
+            expect(await AsyncResult.from_result(Err("Error")).err()).toBeSome("Error");
+        });
+
+        it('unwrap rejects for Err', async () => {
+            await expect(AsyncResult.from_result(Err("Error")).unwrap()).rejects.toThrow();
+        });
+
+        it('expect rejects with the provided message for Err', async () => {
+            await expect(AsyncResult.from_result(Err("Error")).expect("Expected a value")).rejects.toThrow("Expected a value");
+        });
+
+        it('unwrap_err rejects for Ok', async () => {
+            await expect(AsyncResult.from_result(Ok(5)).unwrap_err()).rejects.toThrow();
+        });
+    });
+
+    describe('Extended Methods', () => {
+        it('is_ok_and accepts an async predicate', async () => {
+            expect(await AsyncResult.from_result(Ok(5)).is_ok_and(async x => x > 3)).toBe(true);
+            expect(await AsyncResult.from_result(Err("Error")).is_ok_and(async () => true)).toBe(false);
+        });
+
+        it('is_err_and accepts an async predicate', async () => {
+            expect(await AsyncResult.from_result(Err("Error")).is_err_and(async e => e === "Error")).toBe(true);
+            expect(await AsyncResult.from_result(Ok(5)).is_err_and(() => true)).toBe(false);
+        });
+
+        it('map accepts sync and async callbacks', async () => {
+            const result = await AsyncResult.from_result(Ok(5))
+                .map(x => x * 2)
+                .map(async x => x + 1);
+            expect(result).toBeOkWith(11);
+        });
+
+        it('map does not call the callback for Err', async () => {
+            const spy = jest.fn();
+            const result = await AsyncResult.from_result(Err("Error")).map(spy);
+            expect(spy).not.toHaveBeenCalled();
+            expect(result).toBeErrWith("Error");
+        });
+
+        it('map_or and map_or_else resolve to the mapped or default value', async () => {
+            expect(await AsyncResult.from_result(Ok(5)).map_or(0, async x => x * 2)).toBe(10);
+            expect(await AsyncResult.from_result(Err("Error") as Result<number, string>).map_or(0, x => x * 2)).toBe(0);
+            expect(await AsyncResult.from_result(Err("Error") as Result<number, string>).map_or_else(async e => e.length, x => x * 2)).toBe(5);
+        });
+
+        it('map_err transforms the Err value', async () => {
+            const result = await AsyncResult.from_result(Err("Error")).map_err(async e => new Error(e));
+            expect(result.unwrap_err().message).toBe("Error");
+        });
+
+        it('inspect and inspect_err await their callbacks and pass the Result through', async () => {
+            const seen: string[] = [];
+            const ok = await AsyncResult.from_result(Ok(5)).inspect(async x => {
+                seen.push(`ok ${x}`);
+            });
+            const err = await AsyncResult.from_result(Err("Error")).inspect_err(async e => {
+                seen.push(`err ${e}`);
+            });
+            expect(seen).toEqual(["ok 5", "err Error"]);
+            expect(ok).toBeOkWith(5);
+            expect(err).toBeErrWith("Error");
+        });
+
+        it('and returns the other Result if Ok', async () => {
+            const result = await AsyncResult.from_result(Ok(5)).and(Promise.resolve(Ok("Hello")));
+            expect(result).toBeOkWith("Hello");
+        });
+
+        it('and_then chains Results, promises and AsyncResults', async () => {
+            const result = await AsyncResult.from_result<number, string>(Ok(5))
+                .and_then(x => Ok(x * 2))
+                .and_then(async x => Ok(x + 1))
+                .and_then(x => AsyncResult.from_result(Ok(x.toString())));
+            expect(result).toBeOkWith("11");
+        });
+
+        it('and_then short-circuits on Err', async () => {
+            const spy = jest.fn();
+            const result = await AsyncResult.from_result<number, string>(Ok(5))
+                .and_then(async () => Err("Failed"))
+                .and_then(spy);
+            expect(spy).not.toHaveBeenCalled();
+            expect(result).toBeErrWith("Failed");
+        });
+
+        it('or and or_else recover from Err', async () => {
+            const fallback = await AsyncResult.from_result(Err("Error")).or(Ok(5));
+            expect(fallback).toBeOkWith(5);
+
+            const recovered = await AsyncResult.from_result(Err("Error") as Result<string, string>)
+                .or_else(async e => Ok(`Handled ${e}`));
+            expect(recovered).toBeOkWith("Handled Error");
+        });
+
+        it('or_else leaves Ok untouched', async () => {
+            const spy = jest.fn();
+            const result = await AsyncResult.from_result(Ok(5)).or_else(spy);
+            expect(spy).not.toHaveBeenCalled();
+            expect(result).toBeOkWith(5);
+        });
+
+        it('unwrap_or and unwrap_or_else resolve to the value or a default', async () => {
+            expect(await AsyncResult.from_result(Ok(5)).unwrap_or(0)).toBe(5);
+            expect(await AsyncResult.from_result(Err("Error") as Result<number, string>).unwrap_or(0)).toBe(0);
+            expect(await AsyncResult.from_result(Err("Error") as Result<number, string>).unwrap_or_else(async () => 7)).toBe(7);
+        });
+
+        it('rejects when a callback throws', async () => {
+            const result = AsyncResult.from_result(Ok(5)).map(() => {
+                throw new Error("Boom");
+            });
+            await expect(result.then(r => r)).rejects.toThrow("Boom");
+        });
+    });
+});
@@ -0,0 +1,313 @@
+import { ContextError } from './context';
+import { Option } from './option';
+import { Result, ResultOk, ResultErr } from './result';
+
+type MaybePromise<T> = T | PromiseLike<T>;
+
+/**
+ * A thenable wrapper around `Promise<Result<T, E>>` which exposes the `Result` API,
+ * so that asynchronous steps can be chained without awaiting in between.
+ *
+ * Usage Example:
+ * const user = await AsyncResult.from_promise<Response, Error>(fetch(url))
+ *     .map(res => res.json())
+ *     .and_then(json => validate(json))
+ *     .map_err(e => new Error(`Could not load user: ${e.message}`));
+ */
+export class AsyncResult<T, E> implements PromiseLike<Result<T, E>> {
+    private readonly _promise: Promise<Result<T, E>>;
+
+    constructor(promise: PromiseLike<Result<T, E>>) {
+        this._promise = Promise.resolve(promise);
+    }
+
+    /**
+     * Wraps an existing `Result`, or a promise resolving to one, in an `AsyncResult`.
+     * @param result The `Result` (or promise of a `Result`) to wrap.
+     * @returns An `AsyncResult` resolving to the given `Result`.
+     *
+     * Usage Example:
+     * const result = AsyncResult.from_result(Ok(5));
+     * const mapped = await result.map(async x => x * 2); // Ok(10)
+     */
+    static from_result<T, E>(result: MaybePromise<Result<T, E>>): AsyncResult<T, E> {
+        return new AsyncResult<T, E>(Promise.resolve(result));
+    }
+
+    /**
+     * Converts a promise into an `AsyncResult`, mapping resolution to `Ok` and rejection to `Err`.
+     * @param promise The promise to convert.
+     * @returns An `AsyncResult` resolving to `Ok` with the resolved value, or `Err` with the rejection reason.
+     *
+     * Usage Example:
+     * const result = AsyncResult.from_promise<number, Error>(Promise.resolve(5));
+     * console.log(await result.unwrap()); // 5
+     */
+    static from_promise<T, E = Error>(promise: PromiseLike<T>): AsyncResult<T, E> {
+        return new AsyncResult<T, E>(
+            Promise.resolve(promise).then(
+                value => new ResultOk<T, E>(value),
+                (error: unknown) => new ResultErr<T, E>(error as E),
+            ),
+        );
+    }
+
+    /**
+     * Invokes an async function and converts its outcome into an `AsyncResult`.
+     * Synchronous throws are captured the same way as rejections.
+     * @param fn The async function to invoke.
+     * @returns An `AsyncResult` resolving to `Ok` with the returned value, or `Err` with the thrown error.
+     *
+     * Usage Example:
+     * const result = AsyncResult.from_async<User, Error>(() => db.find_user(id));
+     */
+    static from_async<T, E = Error>(fn: () => PromiseLike<T>): AsyncResult<T, E> {
+        try {
+            return AsyncResult.from_promise<T, E>(fn());
+        } catch (error: unknown) {
+            return AsyncResult.from_result<T, E>(new ResultErr<T, E>(error as E));
+        }
+    }
+
+    then<R1 = Result<T, E>, R2 = never>(
+        onfulfilled?: ((value: Result<T, E>) => R1 | PromiseLike<R1>) | null,
+        onrejected?: ((reason: any) => R2 | PromiseLike<R2>) | null,
+    ): Promise<R1 | R2> {
+        return this._promise.then(onfulfilled, onrejected);
+    }
+
+    private chain<U, F>(fn: (result: Result<T, E>) => MaybePromise<Result<U, F>>): AsyncResult<U, F> {
+        return new AsyncResult<U, F>(this._promise.then(fn));
+    }
+
+    private resolve<U>(fn: (result: Result<T, E>) => MaybePromise<U>): Promise<U> {
+        return this._promise.then(fn);
+    }
+
+    /**
+     * Resolves to true if the result is `ResultOk`.
+     */
+    is_ok(): Promise<boolean> {
+        return this.resolve(result => result.is_ok());
+    }
+
+    /**
+     * Resolves to true if the result is `ResultErr`.
+     */
+    is_err(): Promise<boolean> {
+        return this.resolve(result => result.is_err());
+    }
+
+    /**
+     * Resolves to true if the result is Ok and the contained value passes the (possibly async) predicate.
+     *
+     * Usage Example:
+     * const valid = await AsyncResult.from_result(Ok(5)).is_ok_and(async x => x > 3); // true
+     */
+    is_ok_and(f: (value: T) => MaybePromise<boolean>): Promise<boolean> {
+        return this.resolve(result => result.is_ok() ? f(result.value) : false);
+    }
+
+    /**
+     * Resolves to true if the result is Err and the contained error passes the (possibly async) predicate.
+     */
+    is_err_and(f: (value: E) => MaybePromise<boolean>): Promise<boolean> {
+        return this.resolve(result => result.is_err() ? f(result.value) : false);
+    }
+
+    /**
+     * Resolves to the contained value wrapped in an `Option`.
+     */
+    ok(): Promise<Option<T>> {
+        return this.resolve(result => result.ok());
+    }
+
+    /**
+     * Resolves to the contained error wrapped in an `Option`.
+     */
+    err(): Promise<Option<E>> {
+        return this.resolve(result => result.err());
+    }
+
+    /**
+     * Resolves to the contained `ResultOk` value, rejecting with the provided message otherwise.
+     */
+    expect(msg: string): Promise<T> {
+        return this.resolve(result => result.expect(msg));
+    }
+
+    /**
+     * Resolves to the contained `ResultOk` value, rejecting if the result is `ResultErr`.
+     */
+    unwrap(): Promise<T> {
+        return this.resolve(result => result.unwrap());
+    }
+
+    /**
+     * Resolves to the contained `ResultErr` error, rejecting with the provided message otherwise.
+     */
+    expect_err(msg: string): Promise<E> {
+        return this.resolve(result => result.expect_err(msg));
+    }
+
+    /**
+     * Resolves to the contained `ResultErr` error, rejecting if the result is `ResultOk`.
+     */
+    unwrap_err(): Promise<E> {
+        return this.resolve(result => result.unwrap_err());
+    }
+
+    /**
+     * Resolves to the contained `ResultOk` value, rejecting if the result is `ResultErr`.
+     */
+    into_ok(): Promise<T> {
+        return this.resolve(result => result.into_ok());
+    }
+
+    /**
+     * Resolves to the contained `ResultErr` error, rejecting if the result is `ResultOk`.
+     */
+    into_err(): Promise<E> {
+        return this.resolve(result => result.into_err());
+    }
+
+    /**
+     * Transforms the Ok value with a (possibly async) mapping function.
+     *
+     * Usage Example:
+     * const mapped = AsyncResult.from_result(Ok(5)).map(async x => x * 2); // Ok(10)
+     */
+    map<U>(fn: (arg: T) => MaybePromise<U>): AsyncResult<U, E> {
+        return this.chain(async result => result.is_ok()
+            ? new ResultOk<U, E>(await fn(result.value))
+            : result as any);
+    }
+
+    /**
+     * Transforms the Ok value with a (possibly async) function, otherwise resolves to the default value.
+     */
+    map_or<U>(defaultVal: U, f: (arg: T) => MaybePromise<U>): Promise<U> {
+        return this.resolve(result => result.is_ok() ? f(result.value) : defaultVal);
+    }
+
+    /**
+     * Transforms the Ok value with a (possibly async) function, otherwise computes a default from the error.
+     */
+    map_or_else<U>(defaultFunc: (err: E) => MaybePromise<U>, f: (arg: T) => MaybePromise<U>): Promise<U> {
+        return this.resolve(result => result.is_ok() ? f(result.value) : defaultFunc(result.value));
+    }
+
+    /**
+     * Transforms the Err value with a (possibly async) mapping function, leaving an Ok value untouched.
+     *
+     * Usage Example:
+     * const mapped = AsyncResult.from_result(Err("Error")).map_err(async e => new Error(e));
+     */
+    map_err<U>(fn: (arg: E) => MaybePromise<U>): AsyncResult<T, U> {
+        return this.chain(async result => result.is_err()
+            ? new ResultErr<T, U>(await fn(result.value))
+            : result as any);
+    }
+
+    /**
+     * Calls the (possibly async) function with the Ok value, then resolves to the unmodified Result.
+     */
+    inspect(f: (val: T) => MaybePromise<void>): AsyncResult<T, E> {
+        return this.chain(async result => {
+            if (result.is_ok()) {
+                await f(result.value);
+            }
+
+            return result;
+        });
+    }
+
+    /**
+     * Calls the (possibly async) function with the Err value, then resolves to the unmodified Result.
+     */
+    inspect_err(f: (val: E) => MaybePromise<void>): AsyncResult<T, E> {
+        return this.chain(async result => {
+            if (result.is_err()) {
+                await f(result.value);
+            }
+
+            return result;
+        });
+    }
+
+    /**
+     * Resolves to `res` if the result is Ok, otherwise to the Err value of `self`.
+     */
+    and<U>(res: MaybePromise<Result<U, E>>): AsyncResult<U, E> {
+        return this.chain(result => result.is_ok() ? res : result as any);
+    }
+
+    /**
+     * Calls the (possibly async) function if the result is Ok, otherwise resolves to the Err value of `self`.
+     * The function may return a `Result`, a promise of a `Result` or another `AsyncResult`.
+     *
+     * Usage Example:
+     * const user = AsyncResult.from_result(Ok(id)).and_then(id => find_user(id));
+     */
+    and_then<U>(fn: (arg: T) => MaybePromise<Result<U, E>>): AsyncResult<U, E> {
+        return this.chain(result => result.is_ok() ? fn(result.value) : result as any);
+    }
+
+    /**
+     * Resolves to `res` if the result is Err, otherwise to the Ok value of `self`.
+     */
+    or<U>(res: MaybePromise<Result<U, E>>): AsyncResult<U, E> {
+        return this.chain(result => result.is_err() ? res : result as any);
+    }
+
+    /**
+     * Calls the (possibly async) function if the result is Err, otherwise resolves to the Ok value of `self`.
+     *
+     * Usage Example:
+     * const recovered = AsyncResult.from_result(Err("Error")).or_else(async e => Ok(`Handled ${e}`));
+     */
+    or_else<U>(fn: (arg: E) => MaybePromise<Result<T, U>>): AsyncResult<T, U> {
+        return this.chain(result => result.is_err() ? fn(result.value) : result as any);
+    }
+
+    /**
+     * Resolves to the contained Ok value or a provided default.
+     */
+    unwrap_or(defaultVal: T): Promise<T> {
+        return this.resolve(result => result.unwrap_or(defaultVal));
+    }
+
+    /**
+     * Resolves to the contained Ok value or computes it from a (possibly async) function.
+     */
+    unwrap_or_else(fn: (arg: E) => MaybePromise<T>): Promise<T> {
+        return this.resolve(result => result.is_ok() ? result.value : fn(result.value));
+    }
+
+    /**
+     * Exhaustively matches on the result once it resolves; handlers may be sync or async.
+     *
+     * Usage Example:
+     * const message = await AsyncResult.from_promise(fetch(url)).match({
+     *   Ok: async res => res.text(),
+     *   Err: e => `Request failed: ${e}`,
+     * });
+     */
+    match<A, B>(arms: { Ok: (value: T) => MaybePromise<A>; Err: (error: E) => MaybePromise<B> }): Promise<A | B> {
+        return this.resolve<A | B>(result => result.is_ok() ? arms.Ok(result.value) : arms.Err(result.value));
+    }
+
+    /**
+     * Wraps the error in a `ContextError` describing what was being done, see `Result.context`.
+     */
+    context(context: string): AsyncResult<T, ContextError<E>> {
+        return this.chain(result => result.context(context));
+    }
+
+    /**
+     * Like `context`, but computes the description lazily, only if the result is Err.
+     */
+    with_context(fn: (error: E) => string): AsyncResult<T, ContextError<E>> {
+        return this.chain(result => result.with_context(fn));
+    }
+}
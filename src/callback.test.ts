@@ -0,0 +1,189 @@
+import { NodeCallback, from_callback, from_callback_option, to_callback, to_callback_option } from './callback';
+import { Option, Some, None } from './option';
+import { Result, Ok, Err } from './result';
+
+const read = (path: string, encoding: string, callback: (err: Error | null, data?: string) => void): void => {
+    Promise.resolve().then(() => {
+        if (path === "missing") {
+            callback(new Error("ENOENT"));
+        } else {
+            callback(null, `${path} (${encoding})`);
+        }
+    });
+};
+
+const lookup = (key: string, callback: (err: Error | null, value?: number | null) => void): void => {
+    if (key === "broken") {
+        callback(new Error("connection lost"));
+    } else {
+        callback(null, key === "a" ? 1 : null);
+    }
+};
+
+// calls a callback-taking function and collects the arguments the callback was called with
+const call = (fn: (...args: any[]) => void, ...args: unknown[]): Promise<unknown[]> =>
+    new Promise(resolve => fn(...args, (...callback_args: unknown[]) => resolve(callback_args)));
+
+describe('callback', () => {
+    describe('from_callback', () => {
+        it('maps the value to Ok, keeping the remaining parameters', async () => {
+            const read_file = from_callback(read);
+            const result: Result<string, Error> = await read_file("config.toml", "utf8");
+            expect(result).toBeOkWith("config.toml (utf8)");
+        });
+
+        it('maps a non-null error to Err', async () => {
+            expect(await from_callback(read)("missing", "utf8")).toBeErrWith(new Error("ENOENT"));
+        });
+
+        it('calls the function with the same this', async () => {
+            const counter = {
+                count: 1,
+                add(step: number, callback: NodeCallback<number>) {
+                    callback(null, this.count += step);
+                },
+            };
+            const wrapped = { ...counter, add: from_callback(counter.add) };
+            expect(await wrapped.add(2)).toBeOkWith(3);
+        });
+
+        it('ignores later calls of the callback', async () => {
+            const twice = (callback: NodeCallback<number, string>) => {
+                callback(null, 1);
+                callback("too late");
+            };
+            expect(await from_callback(twice)()).toBeOkWith(1);
+        });
+
+        it('maps a synchronous exception to Err', async () => {
+            const broken = (_callback: NodeCallback<number>) => {
+                throw new Error("invalid arguments");
+            };
+            expect(await from_callback(broken)()).toBeErrWith(new Error("invalid arguments"));
+        });
+    });
+
+    describe('from_callback_option', () => {
+        it('maps a missing value to Ok(None)', async () => {
+            const get = from_callback_option(lookup);
+            const found: Result<Option<number>, Error> = await get("a");
+            expect(found).toBeOkWith(Some(1));
+            expect(await get("b")).toBeOkWith(None());
+            expect(await get("broken")).toBeErrWith(new Error("connection lost"));
+        });
+    });
+
+    describe('to_callback', () => {
+        const parse = (text: string): Result<number, string> => {
+            const value = Number(text);
+
+            return Number.isNaN(value) ? Err(`not a number: ${text}`) : Ok(value);
+        };
+
+        it('calls back with null and the value of Ok', async () => {
+            expect(await call(to_callback(parse), "5")).toEqual([null, 5]);
+        });
+
+        it('calls back with the error of Err', async () => {
+            expect(await call(to_callback(parse), "five")).toEqual(["not a number: five"]);
+        });
+
+        it('awaits promises of Results', async () => {
+            const fetch_user = async (id: number) => id > 0 ? Ok({ id }) : Err("not found");
+            expect(await call(to_callback(fetch_user), 1)).toEqual([null, { id: 1 }]);
+            expect(await call(to_callback(fetch_user), 0)).toEqual(["not found"]);
+        });
+
+        it('always calls back asynchronously', async () => {
+            const calls: string[] = [];
+            const done = new Promise<void>(resolve => to_callback(() => Ok(5))(() => {
+                calls.push("called back");
+                resolve();
+            }));
+            calls.push("returned");
+            await done;
+            expect(calls).toEqual(["returned", "called back"]);
+        });
+
+        it('calls back with the exception of a throwing function, asynchronously', async () => {
+            const calls: unknown[] = [];
+            const done = new Promise<void>(resolve => to_callback((): Result<number, string> => {
+                throw new Error("boom");
+            })((...args) => {
+                calls.push(args);
+                resolve();
+            }));
+            calls.push("returned");
+            await done;
+            expect(calls).toEqual(["returned", [new Error("boom")]]);
+        });
+
+        it('calls back with the reason of a rejected promise', async () => {
+            const failing = async (): Promise<Result<number, string>> => {
+                throw new Error("rejected");
+            };
+            expect(await call(to_callback(failing))).toEqual([new Error("rejected")]);
+        });
+
+        it('wraps falsy rejection reasons in an Error', async () => {
+            const [err] = await call(to_callback(() => Promise.reject(null)));
+            expect(err).toEqual(new Error('Promise was rejected with a falsy value'));
+            expect((err as Error).cause).toBeNull();
+        });
+
+        it('wraps falsy errors of Err in an Error', async () => {
+            for (const error of ["", 0, false, null, undefined]) {
+                const [err] = await call(to_callback(() => Err(error)));
+                expect(err).toEqual(new Error('Result was Err with a falsy value'));
+                expect((err as Error).cause).toBe(error);
+            }
+        });
+
+        it('rethrows exceptions of the callback outside the promise chain', async () => {
+            const tasks: (() => void)[] = [];
+            const spy = jest.spyOn(globalThis as any, 'queueMicrotask').mockImplementation(task => tasks.push(task as () => void));
+
+            try {
+                to_callback(() => Ok(5))(() => {
+                    throw new Error("callback failed");
+                });
+                await Promise.resolve();
+                await Promise.resolve();
+                expect(tasks).toHaveLength(1);
+                expect(tasks[0]).toThrow("callback failed");
+            } finally {
+                spy.mockRestore();
+            }
+        });
+
+        it('round-trips with from_callback', async () => {
+            expect(await from_callback(to_callback(parse))("5")).toBeOkWith(5);
+            expect(await from_callback(to_callback(parse))("five")).toBeErrWith("not a number: five");
+        });
+    });
+
+    describe('to_callback_option', () => {
+        it('calls back without a value for None', async () => {
+            const users = new Map([["1", "Ferris"]]);
+            const find = to_callback_option((id: string): Result<Option<string>, Error> =>
+                id === "" ? Err(new Error("empty id")) : Ok(users.has(id) ? Some(users.get(id)!) : None()));
+
+            expect(await call(find, "1")).toEqual([null, "Ferris"]);
+            expect(await call(find, "2")).toEqual([null]);
+            expect(await call(find, "")).toEqual([new Error("empty id")]);
+        });
+
+        it('calls back with the reason of a rejected promise', async () => {
+            const find = to_callback_option(async (_id: string): Promise<Result<Option<string>, Error>> => {
+                throw new Error("connection lost");
+            });
+            expect(await call(find, "1")).toEqual([new Error("connection lost")]);
+        });
+
+        it('wraps falsy errors of Err in an Error', async () => {
+            const [err] = await call(to_callback_option((): Result<Option<string>, string> => Err("")));
+            expect(err).toEqual(new Error('Result was Err with a falsy value'));
+            expect((err as Error).cause).toBe("");
+        });
+    });
+});
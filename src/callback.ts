@@ -0,0 +1,132 @@
+import { Option, option_from_nullable } from './option';
+import { Result, ResultOk, ResultErr } from './result';
+
+/**
+ * A Node-style callback: called with an error first, or with `null` and the value on success.
+ */
+export type NodeCallback<T, E = Error> = (err: E | null | undefined, value?: T) => void;
+
+declare const queueMicrotask: (callback: () => void) => void;
+
+// settles a promise with the outcome of a Node-style callback; only the first call counts
+const settle = <T, E>(resolve: (result: Result<T, E>) => void): NodeCallback<T, E> =>
+    (err, value) => resolve(
+        err !== null && err !== undefined ? new ResultErr<T, E>(err) : new ResultOk<T, E>(value as T),
+    );
+
+/**
+ * Turns a function taking a Node-style callback as its last argument into one with the remaining
+ * parameters which returns a promise of a `Result`: a non-null `err` becomes `Err`, otherwise the value becomes `Ok`.
+ * The function is called with the same `this` as the returned function; an exception it throws synchronously becomes `Err` too.
+ * @param fn The callback-taking function.
+ * @returns A function returning a promise of Ok with the value, or Err with the error passed to the callback or thrown.
+ *
+ * Usage Example:
+ * const query = from_callback(legacy_db.query.bind(legacy_db));
+ * const rows = await query("SELECT * FROM users"); // Result<Row[], DbError>
+ */
+export const from_callback =
+    <A extends unknown[], T, E = Error>(
+        fn: (...args: [...A, NodeCallback<T, E>]) => void,
+    ): ((...args: A) => Promise<Result<T, E>>) =>
+        function (this: unknown, ...args: A): Promise<Result<T, E>> {
+            return new Promise(resolve => {
+                try {
+                    fn.apply(this, [...args, settle(resolve)]);
+                } catch (e) {
+                    resolve(new ResultErr<T, E>(e as E));
+                }
+            });
+        };
+
+/**
+ * Like `from_callback`, for callbacks which may be called without a value: a missing, `null` or
+ * `undefined` value becomes `Ok(None)`.
+ * @param fn The callback-taking function.
+ * @returns A function returning a promise of Ok with an Option of the value, or Err with the error passed to the callback.
+ *
+ * Usage Example:
+ * const get = from_callback_option(cache.get.bind(cache));
+ * const session = await get(session_id); // Result<Option<Session>, Error>
+ */
+export const from_callback_option =
+    <A extends unknown[], T, E = Error>(
+        fn: (...args: [...A, NodeCallback<T | null | undefined, E>]) => void,
+    ): ((...args: A) => Promise<Result<Option<T>, E>>) => {
+        const wrapped = from_callback(fn);
+
+        return function (this: unknown, ...args: A): Promise<Result<Option<T>, E>> {
+            return wrapped.apply(this, args).then(result => result.map(option_from_nullable));
+        };
+    };
+
+// a falsy error would read as success to the callback, so it is wrapped like util.callbackify does
+const callback_error = <E>(error: E, message: string): E =>
+    error ? error : new Error(message, { cause: error }) as E;
+
+// runs fn and reports its outcome to the callback: a thrown exception or a rejection is passed as the
+// error. The callback is called outside the promise chain, so that an exception it throws surfaces as
+// an uncaught exception instead of an unhandled rejection.
+const report = <R>(run: () => R | PromiseLike<R>, on_result: (result: R) => void, callback: NodeCallback<unknown, unknown>): void => {
+    new Promise<R>(resolve => resolve(run())).then(
+        result => queueMicrotask(() => on_result(result)),
+        reason => queueMicrotask(() => callback(callback_error(reason, 'Promise was rejected with a falsy value'))),
+    );
+};
+
+/**
+ * Turns a function returning a `Result`, or a promise of one, into one taking a Node-style callback as
+ * its last argument: `Err` calls the callback with the error, `Ok` with `null` and the value. Like
+ * `util.callbackify`, the callback is always called asynchronously, an exception thrown or a
+ * promise rejected by `fn` calls the callback with it as the error, and a falsy error such as `Err("")`
+ * is wrapped in an `Error` with it as the `cause`, so that the callback does not mistake it for success.
+ * @param fn The Result-returning function; it is called with the same `this` as the returned function.
+ * @returns A function taking the parameters of `fn` followed by a callback.
+ *
+ * Usage Example:
+ * legacy.register("parse", to_callback((text: string) => parse_config(text)));
+ * // calls back with (ParseError) or (null, config)
+ */
+export const to_callback =
+    <A extends unknown[], T, E>(
+        fn: (...args: A) => Result<T, E> | PromiseLike<Result<T, E>>,
+    ): ((...args: [...A, NodeCallback<T, E>]) => void) =>
+        function (this: unknown, ...args: [...A, NodeCallback<T, E>]): void {
+            const callback = args.pop() as NodeCallback<T, E>;
+
+            report(() => fn.apply(this, args as unknown as A), result => {
+                if (result.is_ok()) {
+                    callback(null, result.value);
+                } else {
+                    callback(callback_error(result.value, 'Result was Err with a falsy value'));
+                }
+            }, callback as NodeCallback<unknown, unknown>);
+        };
+
+/**
+ * Like `to_callback`, for functions which may return no value: `Ok(None)` calls the callback with
+ * `null` and no value.
+ * @param fn The function returning a Result of an Option, or a promise of one.
+ * @returns A function taking the parameters of `fn` followed by a callback.
+ *
+ * Usage Example:
+ * legacy.register("lookup", to_callback_option((id: string) => Ok(users.find(id))));
+ * // calls back with (null, user) or (null)
+ */
+export const to_callback_option =
+    <A extends unknown[], T, E>(
+        fn: (...args: A) => Result<Option<T>, E> | PromiseLike<Result<Option<T>, E>>,
+    ): ((...args: [...A, NodeCallback<T | undefined, E>]) => void) =>
+        function (this: unknown, ...args: [...A, NodeCallback<T | undefined, E>]): void {
+            const callback = args.pop() as NodeCallback<T | undefined, E>;
+
+            report(() => fn.apply(this, args as unknown as A), result => {
+                if (result.is_err()) {
+                    callback(callback_error(result.value, 'Result was Err with a falsy value'));
+                } else if (result.value.is_some()) {
+                    callback(null, result.value.value);
+                } else {
+                    callback(null);
+                }
+            }, callback as NodeCallback<unknown, unknown>);
+        };
@@ -0,0 +1,182 @@
+import { AbortError, AbortSignalLike, TimeoutError, race_ok, with_signal, with_timeout } from './cancellation';
+import { Result, Ok, Err } from './result';
+
+declare const AbortController: new () => { readonly signal: AbortSignalLike; abort(reason?: unknown): void };
+declare const setTimeout: (callback: () => void, ms: number) => unknown;
+
+// a promise resolving to the given value after the given delay
+const delay = <T>(ms: number, value: T): Promise<T> =>
+    new Promise(resolve => setTimeout(() => resolve(value), ms));
+
+// an operation for race_ok, recording whether its signal was aborted
+const operation = <T, E>(ms: number, result: Result<T, E>) => {
+    const state = { aborted: false };
+    const op = (signal: AbortSignalLike) => {
+        signal.addEventListener('abort', () => state.aborted = true);
+        return delay(ms, result);
+    };
+
+    return { state, op };
+};
+
+describe('cancellation', () => {
+    beforeEach(() => {
+        jest.useFakeTimers();
+    });
+
+    afterEach(() => {
+        jest.useRealTimers();
+    });
+
+    describe('with_timeout', () => {
+        it('resolves to Ok if the promise resolves in time', async () => {
+            const pending = with_timeout(delay(500, 5), 1000);
+            await jest.advanceTimersByTimeAsync(500);
+            expect(await pending).toBeOkWith(5);
+            expect(jest.getTimerCount()).toBe(0);
+        });
+
+        it('resolves to Err with a TimeoutError if the promise does not settle in time', async () => {
+            const pending = with_timeout(delay(2000, 5), 1000);
+            await jest.advanceTimersByTimeAsync(1000);
+
+            const result = await pending;
+            expect(result).toBeErrWith(expect.any(TimeoutError));
+
+            const error = result.unwrap_err() as TimeoutError;
+            expect(error._tag).toBe('TimeoutError');
+            expect(error.ms).toBe(1000);
+            expect(error.message).toBe('Timed out after 1000ms');
+        });
+
+        it('resolves to Err if the promise rejects', async () => {
+            const failure = new Error("failed");
+            expect(await with_timeout(Promise.reject(failure), 1000)).toBeErrWith(failure);
+            expect(jest.getTimerCount()).toBe(0);
+        });
+
+        it('never settles twice', async () => {
+            const pending = with_timeout(delay(2000, 5), 1000);
+            await jest.advanceTimersByTimeAsync(2000);
+            expect(await pending).toBeErrWith(expect.any(TimeoutError));
+        });
+
+        it('composes with tagged error handling', async () => {
+            const pending = with_timeout<number, never>(new Promise(() => { }), 10);
+            await jest.advanceTimersByTimeAsync(10);
+
+            const result: Result<number, never> = (await pending).catch_tag('TimeoutError', () => Ok(0));
+            expect(result).toBeOkWith(0);
+        });
+    });
+
+    describe('with_signal', () => {
+        it('resolves to Ok if the promise resolves before the abort', async () => {
+            const controller = new AbortController();
+            const pending = with_signal(delay(500, 5), controller.signal);
+            await jest.advanceTimersByTimeAsync(500);
+            controller.abort();
+            expect(await pending).toBeOkWith(5);
+        });
+
+        it('resolves to Err with an AbortError as soon as the signal is aborted', async () => {
+            const controller = new AbortController();
+            const pending = with_signal(delay(500, 5), controller.signal);
+            controller.abort("cancelled");
+
+            const result = await pending;
+            expect(result).toBeErrWith(expect.any(AbortError));
+            expect(result.unwrap_err()).toMatchObject({ _tag: 'AbortError', cause: "cancelled" });
+        });
+
+        it('resolves to Err immediately if the signal is already aborted', async () => {
+            const controller = new AbortController();
+            controller.abort("cancelled");
+            expect(await with_signal(new Promise(() => { }), controller.signal)).toBeErrWith(expect.any(AbortError));
+        });
+
+        it('resolves to Err if the promise rejects', async () => {
+            const controller = new AbortController();
+            expect(await with_signal(Promise.reject("failed"), controller.signal)).toBeErrWith("failed");
+        });
+
+        it('stops listening once settled', async () => {
+            const controller = new AbortController();
+            const remove = jest.spyOn(controller.signal, 'removeEventListener');
+            await with_signal(Promise.resolve(5), controller.signal);
+            expect(remove).toHaveBeenCalledWith('abort', expect.any(Function));
+        });
+    });
+
+    describe('race_ok', () => {
+        it('resolves to the first Ok and aborts the other operations', async () => {
+            const fast = operation(100, Ok("fast"));
+            const slow = operation(500, Ok("slow"));
+            const failing = operation(50, Err("failed"));
+
+            const pending = race_ok([slow.op, fast.op, failing.op]);
+            await jest.advanceTimersByTimeAsync(100);
+
+            expect(await pending).toBeOkWith("fast");
+            expect(slow.state.aborted).toBe(true);
+            expect(failing.state.aborted).toBe(true);
+            expect(fast.state.aborted).toBe(false);
+        });
+
+        it('ignores outcomes after the race is settled, such as losers rejecting on abort', async () => {
+            const fast = operation(100, Ok("fast"));
+            const slow = operation(500, Ok("slow"));
+            const rejecting = (signal: AbortSignalLike) => new Promise<Result<string, never>>((_, reject) => {
+                signal.addEventListener('abort', () => reject(new Error("aborted")));
+            });
+
+            const pending = race_ok([rejecting, fast.op, slow.op]);
+            await jest.advanceTimersByTimeAsync(500);
+
+            expect(await pending).toBeOkWith("fast");
+            expect(fast.state.aborted).toBe(false);
+            expect(slow.state.aborted).toBe(true);
+        });
+
+        it('resolves to Err with all errors in order if every operation fails', async () => {
+            const pending = race_ok([
+                operation(300, Err("first")).op,
+                operation(100, Err("second")).op,
+                operation(200, Err("third")).op,
+            ]);
+            await jest.advanceTimersByTimeAsync(300);
+            expect(await pending).toBeErrWith(["first", "second", "third"]);
+        });
+
+        it('aborts the other operations and rejects if an operation rejects', async () => {
+            const slow = operation(500, Ok("slow"));
+            const pending = race_ok([slow.op, () => Promise.reject(new Error("crashed"))]);
+
+            await expect(pending).rejects.toThrow("crashed");
+            expect(slow.state.aborted).toBe(true);
+        });
+
+        it('aborts the other operations and rejects if an operation throws', async () => {
+            const before = operation(500, Ok("before"));
+            const after = operation(500, Ok("after"));
+            const pending = race_ok<string, never>([before.op, () => { throw new Error("crashed"); }, after.op]);
+
+            await expect(pending).rejects.toThrow("crashed");
+            expect(before.state.aborted).toBe(true);
+            expect(after.state.aborted).toBe(true);
+        });
+
+        it('resolves to Err with no errors if there are no operations', async () => {
+            expect(await race_ok([])).toBeErrWith([]);
+        });
+
+        it('combines with with_signal for operations which ignore their signal', async () => {
+            const pending = race_ok<number, Error | AbortError>([
+                signal => with_signal(delay(1000, 1), signal),
+                signal => with_signal(delay(100, 2), signal),
+            ]);
+            await jest.advanceTimersByTimeAsync(100);
+            expect(await pending).toBeOkWith(2);
+        });
+    });
+});
@@ -0,0 +1,138 @@
+import { AsyncResult } from './async_result';
+import { Result, ResultOk, ResultErr } from './result';
+import { TaggedError } from './tagged';
+
+declare const setTimeout: (callback: () => void, ms: number) => unknown;
+declare const clearTimeout: (timer: unknown) => void;
+declare const AbortController: new () => { readonly signal: AbortSignalLike; abort(reason?: unknown): void };
+
+/**
+ * The parts of the standard `AbortSignal` used here, so that no DOM or Node typings are required.
+ */
+export interface AbortSignalLike {
+    readonly aborted: boolean;
+    readonly reason?: unknown;
+    addEventListener(type: 'abort', listener: () => void, options?: { once?: boolean }): void;
+    removeEventListener(type: 'abort', listener: () => void): void;
+}
+
+/**
+ * The error of an operation which did not settle within `ms` milliseconds.
+ */
+export class TimeoutError extends TaggedError('TimeoutError')<{ ms: number }> { }
+
+/**
+ * The error of an operation which was aborted through an `AbortSignal`; the reason of the abort is
+ * kept as the standard `Error.cause`.
+ */
+export class AbortError extends TaggedError('AbortError') { }
+
+/**
+ * Awaits a promise for at most `ms` milliseconds. Like `result_from_promise`, a rejection becomes an `Err`.
+ * The promise itself is not cancelled; use `with_signal` for operations which accept an `AbortSignal`.
+ * @param promise The promise to await.
+ * @param ms The timeout in milliseconds.
+ * @returns An `AsyncResult` resolving to Ok with the resolved value, Err with the rejection reason, or
+ * Err with a `TimeoutError` if the promise did not settle in time.
+ *
+ * Usage Example:
+ * const user = await with_timeout(fetch_user(id), 5000); // Result<User, Error | TimeoutError>
+ * const fallback = user.catch_tag('TimeoutError', () => Ok(cached_user));
+ */
+export const with_timeout = <T, E = Error>(promise: PromiseLike<T>, ms: number): AsyncResult<T, E | TimeoutError> =>
+    new AsyncResult(new Promise<Result<T, E | TimeoutError>>(resolve => {
+        const timer = setTimeout(() => {
+            resolve(new ResultErr(new TimeoutError({ ms, message: `Timed out after ${ms}ms` })));
+        }, ms);
+
+        AsyncResult.from_promise<T, E>(promise).then(result => {
+            clearTimeout(timer);
+            resolve(result);
+        });
+    }));
+
+/**
+ * Awaits a promise until an `AbortSignal` is aborted. Like `result_from_promise`, a rejection becomes an `Err`.
+ * @param promise The promise to await, usually of an operation which was given the same signal.
+ * @param signal The signal.
+ * @returns An `AsyncResult` resolving to Ok with the resolved value, Err with the rejection reason, or
+ * Err with an `AbortError` as soon as the signal is aborted.
+ *
+ * Usage Example:
+ * const controller = new AbortController();
+ * const response = with_signal(fetch(url, { signal: controller.signal }), controller.signal);
+ * cancel_button.onclick = () => controller.abort();
+ * await response; // Err(AbortError) once cancelled
+ */
+export const with_signal = <T, E = Error>(promise: PromiseLike<T>, signal: AbortSignalLike): AsyncResult<T, E | AbortError> =>
+    new AsyncResult(new Promise<Result<T, E | AbortError>>(resolve => {
+        const abort = () => {
+            resolve(new ResultErr(new AbortError({ message: 'The operation was aborted', cause: signal.reason })));
+        };
+
+        if (signal.aborted) {
+            return abort();
+        }
+
+        signal.addEventListener('abort', abort, { once: true });
+
+        AsyncResult.from_promise<T, E>(promise).then(result => {
+            signal.removeEventListener('abort', abort);
+            resolve(result);
+        });
+    }));
+
+/**
+ * Starts all operations at once and resolves to the first `Ok`, aborting the signals of the other
+ * operations as soon as one succeeds. If every operation fails, resolves to `Err` with all errors.
+ * If an operation throws or rejects instead, the other operations are aborted as well and the returned
+ * promise rejects with the exception. Outcomes after the race is decided, such as the other operations
+ * rejecting because they were aborted, are ignored.
+ * @param operations Functions starting an operation, each given its own `AbortSignal`.
+ * @returns An `AsyncResult` resolving to the first Ok, or Err with the errors of all operations in their original order.
+ *
+ * Usage Example:
+ * const config = await race_ok([
+ *   signal => fetch_config(primary, { signal }),
+ *   signal => fetch_config(mirror, { signal }),
+ * ]); // Result<Config, HttpError[]>; the slower request is cancelled
+ */
+export const race_ok = <T, E>(
+    operations: readonly ((signal: AbortSignalLike) => PromiseLike<Result<T, E>>)[],
+): AsyncResult<T, E[]> =>
+    new AsyncResult(new Promise<Result<T, E[]>>((resolve, reject) => {
+        const controllers = operations.map(() => new AbortController());
+        const errors: E[] = new Array(operations.length);
+        let pending = operations.length;
+        let settled = false;
+
+        if (pending === 0) {
+            return resolve(new ResultErr([]));
+        }
+
+        // settles the race once, aborting every operation but the one which decided it; outcomes
+        // arriving later, such as losers rejecting because they were aborted, are ignored
+        const settle = (index: number, finish: () => void) => {
+            if (settled) {
+                return;
+            }
+
+            settled = true;
+            controllers.forEach((controller, other) => other !== index && controller.abort());
+            finish();
+        };
+
+        operations.forEach((operation, index) => {
+            new Promise<Result<T, E>>(started => started(operation(controllers[index].signal))).then(result => {
+                if (result.is_ok()) {
+                    settle(index, () => resolve(new ResultOk(result.value)));
+                } else {
+                    errors[index] = result.value;
+
+                    if (--pending === 0) {
+                        settle(index, () => resolve(new ResultErr(errors)));
+                    }
+                }
+            }, reason => settle(index, () => reject(reason)));
+        });
+    }));
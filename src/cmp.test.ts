@@ -0,0 +1,103 @@
+import { Ordering, compare, compare_by, deep_equal, partial_compare } from './cmp';
+import { Option, Some, None } from './option';
+import { Result, Ok, Err } from './result';
+
+describe('cmp', () => {
+    describe('deep_equal', () => {
+        it('compares primitives with ===', () => {
+            expect(deep_equal(1, 1)).toBe(true);
+            expect(deep_equal("a", "b")).toBe(false);
+            expect(deep_equal(NaN, NaN)).toBe(false);
+        });
+
+        it('compares arrays, plain objects and Dates by their contents', () => {
+            expect(deep_equal({ id: 1, tags: ["a"] }, { id: 1, tags: ["a"] })).toBe(true);
+            expect(deep_equal({ id: 1 }, { id: 1, name: "x" })).toBe(false);
+            expect(deep_equal({ id: 1, name: undefined }, { id: 1, other: undefined })).toBe(false);
+            expect(deep_equal([1, 2], [1, 2, 3])).toBe(false);
+            expect(deep_equal(new Date(0), new Date(0))).toBe(true);
+        });
+
+        it('compares class instances by reference', () => {
+            class Point { constructor(readonly x: number) { } }
+            expect(deep_equal(new Point(1), new Point(1))).toBe(false);
+        });
+
+        it('compares Options and Results by variant and payload', () => {
+            expect(deep_equal(Some({ id: 1 }), Some({ id: 1 }))).toBe(true);
+            expect(deep_equal(None(), None())).toBe(true);
+            expect(deep_equal(Ok(1), Err(1))).toBe(false);
+            expect(deep_equal({ user: Ok(Some([1])) }, { user: Ok(Some([1])) })).toBe(true);
+        });
+    });
+
+    describe('partial_compare', () => {
+        it('orders numbers, bigints, strings and booleans naturally', () => {
+            expect(partial_compare(1, 2)).toBeSome(Ordering.Less);
+            expect(partial_compare(2n, 1)).toBeSome(Ordering.Greater);
+            expect(partial_compare("b", "a")).toBeSome(Ordering.Greater);
+            expect(partial_compare(false, true)).toBeSome(Ordering.Less);
+        });
+
+        it('returns None for incomparable values', () => {
+            expect(partial_compare(NaN, 1)).toBeNone();
+            expect(partial_compare("1", 1)).toBeNone();
+            expect(partial_compare({ id: 1 }, { id: 2 })).toBeNone();
+            expect(partial_compare(Some(1), Ok(1))).toBeNone();
+        });
+
+        it('returns Equal for deeply equal objects', () => {
+            expect(partial_compare({ id: 1 }, { id: 1 })).toBeSome(Ordering.Equal);
+        });
+
+        it('orders arrays lexicographically', () => {
+            expect(partial_compare([1, 2], [1, 3])).toBeSome(Ordering.Less);
+            expect(partial_compare([1, 2], [1])).toBeSome(Ordering.Greater);
+            expect(partial_compare([1, NaN], [1, 2])).toBeNone();
+        });
+
+        it('orders Options and Results by Rust rules', () => {
+            expect(partial_compare(None(), Some(1))).toBeSome(Ordering.Less);
+            expect(partial_compare(Err(0), Ok(1))).toBeSome(Ordering.Greater);
+        });
+    });
+
+    describe('compare', () => {
+        it('returns the ordering of comparable values', () => {
+            expect(compare(Ok(5), Err("failed"))).toBe(Ordering.Less);
+            expect(compare(new Date(1), new Date(0))).toBe(Ordering.Greater);
+        });
+
+        it('throws a TypeError for incomparable values', () => {
+            expect(() => compare(NaN, 1)).toThrow(TypeError);
+        });
+
+        it('can be used with Array.prototype.sort', () => {
+            const options = [Some(2), None<number>(), Some(1)];
+            expect(options.sort(compare)).toEqual([None(), Some(1), Some(2)]);
+        });
+    });
+
+    describe('compare_by', () => {
+        it('sorts items by themselves by default', () => {
+            const results: Result<number, string>[] = [Err("b"), Ok(2), Err("a"), Ok(1)];
+            expect(results.sort(compare_by())).toEqual([Ok(1), Ok(2), Err("a"), Err("b")]);
+        });
+
+        it('sorts items by a key', () => {
+            const users = [
+                { name: "ann", nickname: Some("zed") },
+                { name: "bob", nickname: None<string>() },
+                { name: "cid", nickname: Some("amy") },
+            ];
+            const sorted = users.sort(compare_by(user => user.nickname));
+            expect(sorted.map(user => user.name)).toEqual(["bob", "cid", "ann"]);
+        });
+
+        it('accepts a custom comparison function', () => {
+            const options: Option<number>[] = [Some(1), Some(3), Some(2)];
+            const descending = compare_by<Option<number>>(option => option, (a, b) => b.cmp(a));
+            expect(options.sort(descending)).toEqual([Some(3), Some(2), Some(1)]);
+        });
+    });
+});
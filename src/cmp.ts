@@ -0,0 +1,167 @@
+import { Option, OptionSome, OptionNone, Some, None } from './option';
+import { ResultOk, ResultErr } from './result';
+
+/**
+ * The result of comparing two values, like Rust's `std::cmp::Ordering`.
+ * The numeric values make an `Ordering` a valid return value of an `Array.prototype.sort` comparator.
+ */
+export enum Ordering {
+    Less = -1,
+    Equal = 0,
+    Greater = 1,
+}
+
+const is_option = (value: unknown): value is Option<unknown> =>
+    value instanceof OptionSome || value instanceof OptionNone;
+
+const is_result = (value: unknown): value is ResultOk<unknown, unknown> | ResultErr<unknown, unknown> =>
+    value instanceof ResultOk || value instanceof ResultErr;
+
+const is_numeric = (value: unknown): value is number | bigint =>
+    typeof value === 'number' || typeof value === 'bigint';
+
+const is_plain_object = (value: unknown): value is Record<string, unknown> => {
+    if (typeof value !== 'object' || value === null) {
+        return false;
+    }
+
+    const prototype = Object.getPrototypeOf(value);
+
+    return prototype === Object.prototype || prototype === null;
+};
+
+const order = <V>(a: V, b: V): Option<Ordering> => {
+    if (a < b) {
+        return Some(Ordering.Less);
+    } else if (a > b) {
+        return Some(Ordering.Greater);
+    } else if (a === b) {
+        return Some(Ordering.Equal);
+    }
+
+    // NaN
+    return None();
+};
+
+/**
+ * Compares two values structurally. Options and Results are equal if they are the same variant
+ * with deeply equal payloads; arrays, plain objects and `Date`s are compared by their contents,
+ * and everything else by `===`.
+ * @param a The first value.
+ * @param b The second value.
+ * @returns true if both values are deeply equal, otherwise false.
+ *
+ * Usage Example:
+ * deep_equal(Some({ id: 1, tags: ["a"] }), Some({ id: 1, tags: ["a"] })); // true
+ * deep_equal(Ok(1), Err(1)); // false
+ */
+export const deep_equal = (a: unknown, b: unknown): boolean => {
+    if (a === b) {
+        return true;
+    }
+
+    if (is_option(a) || is_result(a)) {
+        return Object.getPrototypeOf(a) === Object.getPrototypeOf(b) && deep_equal((a as any).value, (b as any).value);
+    }
+
+    if (a instanceof Date && b instanceof Date) {
+        return a.getTime() === b.getTime();
+    }
+
+    if (Array.isArray(a) && Array.isArray(b)) {
+        return a.length === b.length && a.every((item, index) => deep_equal(item, b[index]));
+    }
+
+    if (is_plain_object(a) && is_plain_object(b)) {
+        const keys = Object.keys(a);
+
+        return keys.length === Object.keys(b).length
+            && keys.every(key => Object.prototype.hasOwnProperty.call(b, key) && deep_equal(a[key], b[key]));
+    }
+
+    return false;
+};
+
+/**
+ * Compares two values following Rust's ordering rules, if they are comparable: numbers, bigints,
+ * strings, booleans and `Date`s by their natural order, arrays lexicographically, Options with
+ * `None < Some` and Results with `Ok < Err`. Other values are only comparable if they are deeply equal.
+ * @param a The first value.
+ * @param b The second value.
+ * @returns `Some` with the ordering of `a` relative to `b`, or `None` if the values are not comparable.
+ *
+ * Usage Example:
+ * partial_compare(Some(1), None()); // Some(Ordering.Greater)
+ * partial_compare(NaN, 1); // None
+ */
+export const partial_compare = (a: unknown, b: unknown): Option<Ordering> => {
+    if (is_option(a) && is_option(b)) {
+        return a.partial_cmp(b);
+    }
+
+    if (is_result(a) && is_result(b)) {
+        return a.partial_cmp(b);
+    }
+
+    if ((is_numeric(a) && is_numeric(b)) || (typeof a === typeof b && (typeof a === 'string' || typeof a === 'boolean'))) {
+        return order(a as any, b as any);
+    }
+
+    if (a instanceof Date && b instanceof Date) {
+        return order(a.getTime(), b.getTime());
+    }
+
+    if (Array.isArray(a) && Array.isArray(b)) {
+        for (let index = 0; index < Math.min(a.length, b.length); index++) {
+            const ordering = partial_compare(a[index], b[index]);
+
+            if (ordering.is_none() || ordering.value !== Ordering.Equal) {
+                return ordering;
+            }
+        }
+
+        return order(a.length, b.length);
+    }
+
+    return deep_equal(a, b) ? Some(Ordering.Equal) : None();
+};
+
+/**
+ * Compares two values like `partial_compare`, throwing if they are not comparable.
+ * @param a The first value.
+ * @param b The second value.
+ * @returns The ordering of `a` relative to `b`.
+ * @throws TypeError if the values are not comparable.
+ *
+ * Usage Example:
+ * compare(Ok(5), Err("failed")); // Ordering.Less
+ * [Some(2), None(), Some(1)].sort(compare); // [None, Some(1), Some(2)]
+ */
+export const compare = (a: unknown, b: unknown): Ordering => {
+    const ordering = partial_compare(a, b);
+
+    if (ordering.is_none()) {
+        throw new TypeError(`Cannot compare ${String(a)} with ${String(b)}`);
+    }
+
+    return ordering.value;
+};
+
+/**
+ * Creates a comparator for `Array.prototype.sort` which orders items by a key.
+ * @param key A function selecting the key to compare by; defaults to the item itself.
+ * @param cmpFn The function comparing two keys; defaults to `compare`.
+ * @returns A comparator returning an `Ordering`.
+ *
+ * Usage Example:
+ * const options = [Some(3), None(), Some(1)];
+ * options.sort(compare_by()); // [None, Some(1), Some(3)]
+ *
+ * users.sort(compare_by(user => user.nickname)); // users without a nickname first
+ */
+export const compare_by = <T, K = T>(
+    key: (item: T) => K = item => item as unknown as K,
+    cmpFn: (a: K, b: K) => Ordering = compare,
+): (a: T, b: T) => Ordering => {
+    return (a, b) => cmpFn(key(a), key(b));
+};
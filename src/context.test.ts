@@ -0,0 +1,49 @@
+import { ContextError } from './context';
+
+describe('ContextError', () => {
+    it('uses the context as message and keeps the original error as cause', () => {
+        const cause = new Error("not found");
+        const error = new ContextError("loading config", cause);
+        expect(error).toBeInstanceOf(Error);
+        expect(error.name).toBe("ContextError");
+        expect(error.message).toBe("loading config");
+        expect(error.cause).toBe(cause);
+    });
+
+    it('chain() walks the cause chain, outermost first', () => {
+        const root = new Error("not found");
+        const inner = new ContextError("reading config.toml", root);
+        const outer = new ContextError("loading config", inner);
+        expect(outer.chain()).toEqual([outer, inner, root]);
+    });
+
+    it('chain() follows standard Error causes and ends at non-Error values', () => {
+        const middle = new Error("io failure", { cause: "ENOENT" });
+        const error = new ContextError("loading config", middle);
+        expect(error.chain()).toEqual([error, middle, "ENOENT"]);
+    });
+
+    it('chain() stops at cycles', () => {
+        const cyclic = new Error("cyclic");
+        cyclic.cause = cyclic;
+        const error = new ContextError("loading config", cyclic);
+        expect(error.chain()).toEqual([error, cyclic]);
+    });
+
+    it('root_cause() returns the innermost error', () => {
+        const error = new ContextError("loading config", new ContextError("reading file", "ENOENT"));
+        expect(error.root_cause()).toBe("ENOENT");
+    });
+
+    it('report() formats the chain as a multi-line report', () => {
+        const error = new ContextError("loading config",
+            new ContextError("reading config.toml", new Error("no such file")));
+        expect(error.report()).toBe([
+            "loading config",
+            "",
+            "Caused by:",
+            "    0: reading config.toml",
+            "    1: no such file",
+        ].join("\n"));
+    });
+});
@@ -0,0 +1,81 @@
+/**
+ * An error describing what was being done when another error occurred, similar to anyhow's context.
+ * The original error is kept as the standard `Error.cause`, so layers of context form a chain.
+ *
+ * Usage Example:
+ * const config = read_file("config.toml")
+ *     .context("reading config.toml")
+ *     .context("loading config");
+ *
+ * if (config.is_err()) {
+ *   console.error(config.unwrap_err().report());
+ *   // loading config
+ *   //
+ *   // Caused by:
+ *   //     0: reading config.toml
+ *   //     1: ENOENT: no such file or directory
+ * }
+ */
+export class ContextError<E = unknown> extends Error {
+    declare readonly cause: E;
+
+    constructor(context: string, cause: E) {
+        super(context, { cause });
+        this.name = 'ContextError';
+    }
+
+    /**
+     * Returns this error followed by every error in its cause chain, outermost first.
+     * @returns An array starting with this error and ending with the root cause.
+     *
+     * Usage Example:
+     * const error = new ContextError("loading config", new Error("not found"));
+     * error.chain().map(e => (e as Error).message); // ["loading config", "not found"]
+     */
+    chain(): unknown[] {
+        const chain: unknown[] = [this];
+        let current: unknown = this.cause;
+
+        while (current !== undefined && !chain.includes(current)) {
+            chain.push(current);
+            current = current instanceof Error ? current.cause : undefined;
+        }
+
+        return chain;
+    }
+
+    /**
+     * Returns the innermost error of the cause chain.
+     * @returns The last error in `chain()`.
+     *
+     * Usage Example:
+     * const error = new ContextError("loading config", new ContextError("reading file", "ENOENT"));
+     * error.root_cause(); // "ENOENT"
+     */
+    root_cause(): unknown {
+        const chain = this.chain();
+
+        return chain[chain.length - 1];
+    }
+
+    /**
+     * Formats the cause chain as a multi-line report.
+     * @returns The outermost message followed by a numbered list of its causes.
+     *
+     * Usage Example:
+     * const error = new ContextError("loading config", new Error("not found"));
+     * error.report(); // "loading config\n\nCaused by:\n    0: not found"
+     */
+    report(): string {
+        const [head, ...causes] = this.chain().map(describe);
+
+        if (causes.length === 0) {
+            return head;
+        }
+
+        return [head, '', 'Caused by:', ...causes.map((cause, index) => `    ${index}: ${cause}`)].join('\n');
+    }
+}
+
+const describe = (error: unknown): string =>
+    error instanceof Error ? error.message : String(error);
@@ -0,0 +1,118 @@
+import { returns_result, returns_option } from './decorators';
+import { Option } from './option';
+import { Result } from './result';
+
+class HttpError {
+    constructor(readonly message: string) { }
+}
+
+const to_http_error = (error: unknown): HttpError =>
+    new HttpError(error instanceof Error ? error.message : String(error));
+
+class UserService {
+    private readonly users = new Map([["1", { id: "1", name: "Ferris" }]]);
+
+    parse_id(text: string): Result<number, HttpError>;
+    @returns_result(to_http_error)
+    parse_id(text: string): unknown {
+        const id = Number(text);
+
+        if (Number.isNaN(id)) {
+            throw new Error(`invalid id: ${text}`);
+        }
+
+        return id;
+    }
+
+    get_user(id: string): Promise<Result<{ id: string; name: string }, HttpError>>;
+    @returns_result(to_http_error)
+    async get_user(id: string): Promise<unknown> {
+        await null;
+
+        if (!this.users.has(id)) {
+            throw new Error("not found");
+        }
+
+        return this.users.get(id);
+    }
+
+    parse_json(text: string): Result<unknown, Error>;
+    @returns_result()
+    parse_json(text: string): unknown {
+        return JSON.parse(text);
+    }
+
+    find_user(id: string): Option<{ id: string; name: string }>;
+    @returns_option()
+    find_user(id: string): unknown {
+        return this.users.get(id);
+    }
+
+    find_name(id: string): Promise<Option<string>>;
+    @returns_option()
+    async find_name(id: string): Promise<unknown> {
+        await null;
+
+        return this.users.get(id)?.name ?? null;
+    }
+
+    fail(): Option<number>;
+    @returns_option()
+    fail(): unknown {
+        throw new Error("failed");
+    }
+}
+
+describe('decorators', () => {
+    const service = new UserService();
+
+    describe('returns_result', () => {
+        it('wraps the return value of a sync method in Ok', () => {
+            expect(service.parse_id("5")).toBeOkWith(5);
+        });
+
+        it('maps exceptions of a sync method to Err', () => {
+            expect(service.parse_id("five")).toBeErrWith(new HttpError("invalid id: five"));
+        });
+
+        it('resolves async methods to Ok, calling them with the instance as this', async () => {
+            expect(await service.get_user("1")).toBeOkWith({ id: "1", name: "Ferris" });
+        });
+
+        it('maps rejections of async methods to Err', async () => {
+            expect(await service.get_user("2")).toBeErrWith(new HttpError("not found"));
+        });
+
+        it('keeps the caught value without mapError', () => {
+            expect(service.parse_json("{")).toBeErrWith(expect.any(SyntaxError));
+        });
+
+        it('only accepts methods returning unknown, since it cannot change their type', () => {
+            class Lying {
+                // @ts-expect-error callers would see a number instead of a Result
+                @returns_result()
+                parse(text: string): number {
+                    return Number(text);
+                }
+            }
+
+            expect(new Lying().parse("5")).toBeOkWith(5);
+        });
+    });
+
+    describe('returns_option', () => {
+        it('turns null and undefined into None', () => {
+            expect(service.find_user("1")).toBeSome({ id: "1", name: "Ferris" });
+            expect(service.find_user("2")).toBeNone();
+        });
+
+        it('resolves async methods to an Option', async () => {
+            expect(await service.find_name("1")).toBeSome("Ferris");
+            expect(await service.find_name("2")).toBeNone();
+        });
+
+        it('does not catch exceptions', () => {
+            expect(() => service.fail()).toThrow("failed");
+        });
+    });
+});
@@ -0,0 +1,71 @@
+import { option_from_nullable } from './option';
+import { result_from_promise, try_catch } from './result';
+
+/**
+ * A method decorator which keeps the type of the decorated method. Decorators cannot change the type
+ * of a method, so the method has to return `unknown` (or `Promise<unknown>`), and the type seen by
+ * callers is declared with an overload signature; decorating a method with any other return type
+ * fails to compile instead of silently lying about it.
+ */
+type ResultMethodDecorator = <This, A extends unknown[], R>(
+    method: (this: This, ...args: A) => R,
+    context: unknown extends Awaited<R> ? ClassMethodDecoratorContext<This, (this: This, ...args: A) => R> : never,
+) => (this: This, ...args: A) => R;
+
+const is_thenable = (value: unknown): value is PromiseLike<unknown> =>
+    typeof (value as any)?.then === 'function';
+
+/**
+ * A method decorator catching everything the method throws as an `Err`, and wrapping what it returns
+ * in `Ok`. Async methods return a promise of a `Result`, with rejections caught as an `Err`.
+ * Declare the resulting type with an overload signature and give the implementation an `unknown`
+ * (or `Promise<unknown>`) return type.
+ * @param mapError Converts anything thrown into a typed error. Without it, it is assumed to be an `E`.
+ * @returns The decorator.
+ *
+ * Usage Example:
+ * class UserService {
+ *   get_user(id: string): Promise<Result<User, HttpError>>;
+ *   @returns_result(to_http_error)
+ *   async get_user(id: string): Promise<unknown> {
+ *     return await this.sdk.users.get(id);
+ *   }
+ * }
+ */
+export const returns_result = <E = Error>(mapError?: (error: unknown) => E): ResultMethodDecorator =>
+    method => function (this, ...args) {
+        const result = try_catch(() => method.apply(this, args), mapError);
+
+        if (result.is_ok() && is_thenable(result.value)) {
+            return result_from_promise(Promise.resolve(result.value), mapError) as any;
+        }
+
+        return result as any;
+    };
+
+/**
+ * A method decorator wrapping what the method returns in an `Option`, turning `null` and `undefined`
+ * into `None`. Async methods return a promise of an `Option`. Exceptions are not caught.
+ * Declare the resulting type with an overload signature and give the implementation an `unknown`
+ * (or `Promise<unknown>`) return type.
+ * @returns The decorator.
+ *
+ * Usage Example:
+ * class UserRepository {
+ *   find(id: string): Option<User>;
+ *   @returns_option()
+ *   find(id: string): unknown {
+ *     return this.users.get(id);
+ *   }
+ * }
+ */
+export const returns_option = (): ResultMethodDecorator =>
+    method => function (this, ...args) {
+        const value = method.apply(this, args);
+
+        if (is_thenable(value)) {
+            return Promise.resolve(value).then(option_from_nullable) as any;
+        }
+
+        return option_from_nullable(value) as any;
+    };
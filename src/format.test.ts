@@ -0,0 +1,85 @@
+import { format_debug } from './format';
+import { Some, None } from './option';
+import { Ok, Err } from './result';
+
+declare const require: (id: 'util') => {
+    inspect: (value: unknown, options?: { depth?: number | null; colors?: boolean }) => string;
+};
+
+const { inspect } = require('util');
+
+class User {
+    constructor(readonly id: number) { }
+}
+
+describe('format', () => {
+    describe('toString', () => {
+        it('formats the variants like Rust\'s Debug output', () => {
+            expect(Some(5).toString()).toBe('Some(5)');
+            expect(None().toString()).toBe('None');
+            expect(Ok("done").toString()).toBe('Ok("done")');
+            expect(Err(new Error("failed")).toString()).toBe('Err(Error: failed)');
+        });
+
+        it('formats nested values', () => {
+            expect(Ok(Some({ id: 1 })).toString()).toBe('Ok(Some({ id: 1 }))');
+            expect(Some([1, None(), Err("x")]).toString()).toBe('Some([1, None, Err("x")])');
+            expect(Some(new User(1)).toString()).toBe('Some(User { id: 1 })');
+            expect(Some({ "first name": "Ada", empty: {} }).toString()).toBe('Some({ "first name": "Ada", empty: {} })');
+            expect(Some(new Map([["a", 1]])).toString()).toBe('Some(Map { "a" => 1 })');
+            expect(Some(new Set([1n])).toString()).toBe('Some(Set { 1n })');
+            expect(Some(undefined).toString()).toBe('Some(undefined)');
+        });
+
+        it('is used by string conversion', () => {
+            expect(`${Some(5)}`).toBe('Some(5)');
+            expect("result: " + Err("failed")).toBe('result: Err("failed")');
+        });
+
+        it('prints circular references', () => {
+            const value: { self?: unknown } = {};
+            value.self = value;
+            expect(format_debug(Some(value))).toBe('Some({ self: [Circular] })');
+        });
+    });
+
+    describe('Symbol.toStringTag', () => {
+        it('names the type', () => {
+            expect(Object.prototype.toString.call(Some(5))).toBe('[object Option]');
+            expect(Object.prototype.toString.call(None())).toBe('[object Option]');
+            expect(Object.prototype.toString.call(Ok(5))).toBe('[object Result]');
+            expect(Object.prototype.toString.call(Err(5))).toBe('[object Result]');
+        });
+    });
+
+    describe('util.inspect', () => {
+        it('formats the variants with the regular formatting of their values', () => {
+            expect(inspect(Some(5))).toBe('Some(5)');
+            expect(inspect(None())).toBe('None');
+            expect(inspect(Ok(Some({ id: 1 })))).toBe('Ok(Some({ id: 1 }))');
+            expect(inspect(Err("failed"))).toBe("Err('failed')");
+            expect(inspect({ user: Some(new User(1)) })).toBe('{ user: Some(User { id: 1 }) }');
+        });
+
+        it('respects the depth limit', () => {
+            expect(inspect(Some({ a: { b: 1 } }), { depth: 0 })).toBe('Some([Object])');
+            expect(inspect(Ok(Some(5)), { depth: 0 })).toBe('Ok([Some])');
+            expect(inspect(Ok(Some({ a: { b: { c: 1 } } })), { depth: null })).toBe('Ok(Some({ a: { b: { c: 1 } } }))');
+        });
+
+        it('supports colors', () => {
+            expect(inspect(Some(5), { colors: true })).toBe('\u001b[36mSome\u001b[39m(\u001b[33m5\u001b[39m)');
+        });
+    });
+
+    describe('Deno.inspect', () => {
+        it('formats the value with the given inspect function and options', () => {
+            const deno_inspect = (value: unknown, options: unknown) => `<${String(value)} ${options}>`;
+            const custom = Symbol.for('Deno.customInspect');
+
+            expect((Some(5) as any)[custom](deno_inspect, 'options')).toBe('Some(<5 options>)');
+            expect((None() as any)[custom](deno_inspect, 'options')).toBe('None');
+            expect((Err("failed") as any)[custom](deno_inspect, 'options')).toBe('Err(<failed options>)');
+        });
+    });
+});
@@ -0,0 +1,131 @@
+import { OptionSome, OptionNone } from './option';
+import { ResultOk, ResultErr } from './result';
+
+/**
+ * The options Node passes to custom inspect methods; `stylize` applies the colors, if enabled.
+ */
+export type NodeInspectOptions = {
+    depth?: number | null;
+    colors?: boolean;
+    stylize(text: string, style: string): string;
+    [option: string]: unknown;
+};
+
+/**
+ * Node's `util.inspect`, passed to custom inspect methods.
+ */
+export type NodeInspect = (value: unknown, options: NodeInspectOptions) => string;
+
+/**
+ * Deno's `Deno.inspect`, passed to custom inspect methods along with the current options.
+ */
+export type DenoInspect = (value: unknown, options: unknown) => string;
+
+type Variant = OptionSome<unknown> | OptionNone<unknown> | ResultOk<unknown, unknown> | ResultErr<unknown, unknown>;
+
+const is_variant = (value: unknown): value is Variant =>
+    value instanceof OptionSome || value instanceof OptionNone || value instanceof ResultOk || value instanceof ResultErr;
+
+const name_of = (variant: Variant): string =>
+    variant instanceof OptionSome ? 'Some' : variant instanceof OptionNone ? 'None' : variant instanceof ResultOk ? 'Ok' : 'Err';
+
+// property keys are printed bare when they are valid identifiers, like Rust's struct fields
+const format_key = (key: string): string =>
+    /^[A-Za-z_$][\w$]*$/.test(key) ? key : JSON.stringify(key);
+
+const format_entries = (prefix: string, open: string, entries: string[], close: string): string =>
+    entries.length === 0 ? `${prefix}${open}${close}` : `${prefix}${open} ${entries.join(', ')} ${close}`;
+
+const format_value = (value: unknown, seen: object[]): string => {
+    if (typeof value === 'string') {
+        return JSON.stringify(value);
+    }
+
+    if (typeof value === 'bigint') {
+        return `${value}n`;
+    }
+
+    if (typeof value === 'symbol') {
+        return value.toString();
+    }
+
+    if (typeof value === 'function') {
+        return `[Function ${value.name || '(anonymous)'}]`;
+    }
+
+    if (typeof value !== 'object' || value === null) {
+        return String(value);
+    }
+
+    if (seen.includes(value)) {
+        return '[Circular]';
+    }
+
+    const nested = [...seen, value];
+
+    if (is_variant(value)) {
+        return value instanceof OptionNone ? 'None' : `${name_of(value)}(${format_value(value.value, nested)})`;
+    }
+
+    if (value instanceof Error) {
+        return `${value.name}: ${value.message}`;
+    }
+
+    if (value instanceof Date) {
+        return isNaN(value.getTime()) ? 'Invalid Date' : value.toISOString();
+    }
+
+    if (Array.isArray(value)) {
+        return `[${value.map(item => format_value(item, nested)).join(', ')}]`;
+    }
+
+    if (value instanceof Map) {
+        return format_entries('Map ', '{', [...value].map(([k, v]) => `${format_value(k, nested)} => ${format_value(v, nested)}`), '}');
+    }
+
+    if (value instanceof Set) {
+        return format_entries('Set ', '{', [...value].map(item => format_value(item, nested)), '}');
+    }
+
+    const prototype = Object.getPrototypeOf(value);
+    const name = prototype === null || prototype === Object.prototype ? '' : `${prototype.constructor?.name ?? ''} `;
+    const entries = Object.entries(value).map(([k, v]) => `${format_key(k)}: ${format_value(v, nested)}`);
+
+    return format_entries(name, '{', entries, '}');
+};
+
+/**
+ * Formats a value for `toString`, like Rust's `Debug` output: `Ok(Some({ id: 1 }))`, `Err("failed")`.
+ * Strings are quoted, and circular references are printed as `[Circular]`.
+ */
+export const format_debug = (value: unknown): string =>
+    format_value(value, []);
+
+/**
+ * Implements Node's custom inspect method for a variant: the value is formatted by `util.inspect`
+ * itself, so that its depth limit, colors and line breaking apply.
+ */
+export const inspect_node = (variant: Variant, depth: number, options: NodeInspectOptions, inspect?: NodeInspect): string => {
+    const name = name_of(variant);
+
+    if (variant instanceof OptionNone) {
+        return options.stylize(name, 'special');
+    }
+
+    if (depth < 0) {
+        return options.stylize(`[${name}]`, 'special');
+    }
+
+    // the third argument was only added in Node 16.14
+    const inner = inspect
+        ? inspect(variant.value, { ...options, depth: options.depth === null ? null : depth - 1 })
+        : format_debug(variant.value);
+
+    return `${options.stylize(name, 'special')}(${inner})`;
+};
+
+/**
+ * Implements Deno's custom inspect method for a variant, formatting the value with `Deno.inspect`.
+ */
+export const inspect_deno = (variant: Variant, inspect: DenoInspect, options: unknown): string =>
+    variant instanceof OptionNone ? 'None' : `${name_of(variant)}(${inspect(variant.value, options)})`;
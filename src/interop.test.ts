@@ -0,0 +1,184 @@
+import * as fc from 'fast-check';
+import {
+    CauseLike,
+    EitherLike,
+    ExitLike,
+    FpOptionLike,
+    from_either,
+    from_exit,
+    from_fp_option,
+    from_neverthrow,
+    is_either,
+    is_exit,
+    is_fp_option,
+    is_neverthrow_result,
+    to_either,
+    to_exit,
+    to_fp_option,
+    to_neverthrow,
+} from './interop';
+import { Some, None } from './option';
+import { Result, Ok, Err } from './result';
+import { Panic } from './panic';
+import { arb_option, arb_result } from './testing';
+
+// stand-ins with the shapes of the other libraries, which are not dependencies
+
+class NeverthrowOk<T, E> {
+    constructor(readonly value: T) { }
+    isOk(): this is NeverthrowOk<T, E> { return true; }
+    isErr(): this is NeverthrowErr<T, E> { return false; }
+}
+
+class NeverthrowErr<T, E> {
+    constructor(readonly error: E) { }
+    isOk(): this is NeverthrowOk<T, E> { return false; }
+    isErr(): this is NeverthrowErr<T, E> { return true; }
+}
+
+type NeverthrowResult<T, E> = NeverthrowOk<T, E> | NeverthrowErr<T, E>;
+
+const ok = <T, E = never>(value: T): NeverthrowResult<T, E> => new NeverthrowOk(value);
+const err = <T = never, E = unknown>(error: E): NeverthrowResult<T, E> => new NeverthrowErr(error);
+
+const Exit = {
+    succeed: <A>(value: A): ExitLike<A, never> => ({ _tag: 'Success', value }),
+    fail: <E>(error: E): ExitLike<never, E> => ({ _tag: 'Failure', cause: { _tag: 'Fail', error } }),
+    failCause: <E>(cause: CauseLike<E>): ExitLike<never, E> => ({ _tag: 'Failure', cause }),
+};
+
+const arbitrary = arb_result(fc.integer(), fc.string());
+
+describe('interop', () => {
+    describe('neverthrow', () => {
+        it('converts Ok and Err', () => {
+            const result: Result<number, string> = from_neverthrow(ok<number, string>(5));
+            expect(result).toBeOkWith(5);
+            expect(from_neverthrow(err("failed"))).toBeErrWith("failed");
+        });
+
+        it('converts to neverthrow results with their constructors', () => {
+            const converted = to_neverthrow(Ok(5), ok, err);
+            expect(converted).toBeInstanceOf(NeverthrowOk);
+            expect(converted.isOk() && converted.value).toBe(5);
+            expect(to_neverthrow(Err("failed"), ok, err)).toEqual(new NeverthrowErr("failed"));
+        });
+
+        it('detects the shape', () => {
+            expect(is_neverthrow_result(ok(5))).toBe(true);
+            expect(is_neverthrow_result(err("failed"))).toBe(true);
+            expect(is_neverthrow_result(Ok(5))).toBe(false);
+            expect(is_neverthrow_result({ value: 5 })).toBe(false);
+        });
+
+        it('round-trips', () => {
+            fc.assert(fc.property(arbitrary, result => from_neverthrow(to_neverthrow(result, ok, err)).eq(result)));
+            fc.assert(fc.property(arbitrary, result => {
+                const foreign = to_neverthrow(result, ok, err);
+                expect(to_neverthrow(from_neverthrow(foreign), ok, err)).toEqual(foreign);
+            }));
+        });
+    });
+
+    describe('fp-ts Either', () => {
+        it('converts Right and Left', () => {
+            const right: EitherLike<string, number> = { _tag: 'Right', right: 5 };
+            const result: Result<number, string> = from_either(right);
+            expect(result).toBeOkWith(5);
+            expect(from_either({ _tag: 'Left', left: "failed" })).toBeErrWith("failed");
+        });
+
+        it('converts to Right and Left', () => {
+            expect(to_either(Ok(5))).toEqual({ _tag: 'Right', right: 5 });
+            expect(to_either(Err("failed"))).toEqual({ _tag: 'Left', left: "failed" });
+        });
+
+        it('detects the shape', () => {
+            expect(is_either({ _tag: 'Right', right: 5 })).toBe(true);
+            expect(is_either({ _tag: 'Left', left: undefined })).toBe(true);
+            expect(is_either({ _tag: 'Right' })).toBe(false);
+            expect(is_either(Ok(5))).toBe(false);
+        });
+
+        it('round-trips', () => {
+            fc.assert(fc.property(arbitrary, result => from_either(to_either(result)).eq(result)));
+            fc.assert(fc.property(arbitrary, result => {
+                const either = to_either(result);
+                expect(to_either(from_either(either))).toEqual(either);
+            }));
+        });
+    });
+
+    describe('fp-ts Option', () => {
+        it('converts Some and None', () => {
+            const some: FpOptionLike<number> = { _tag: 'Some', value: 5 };
+            expect(from_fp_option(some)).toBeSome(5);
+            expect(from_fp_option({ _tag: 'None' })).toBeNone();
+        });
+
+        it('converts to Some and None', () => {
+            expect(to_fp_option(Some(5))).toEqual({ _tag: 'Some', value: 5 });
+            expect(to_fp_option(None())).toEqual({ _tag: 'None' });
+        });
+
+        it('detects the shape', () => {
+            expect(is_fp_option({ _tag: 'None' })).toBe(true);
+            expect(is_fp_option({ _tag: 'Some', value: 5 })).toBe(true);
+            expect(is_fp_option(Some(5))).toBe(false);
+            expect(is_fp_option(None())).toBe(false);
+        });
+
+        it('round-trips', () => {
+            const options = arb_option(fc.integer());
+            fc.assert(fc.property(options, option => from_fp_option(to_fp_option(option)).eq(option)));
+            fc.assert(fc.property(options, option => {
+                const foreign = to_fp_option(option);
+                expect(to_fp_option(from_fp_option(foreign))).toEqual(foreign);
+            }));
+        });
+    });
+
+    describe('Effect Exit', () => {
+        it('converts Success and Failure', () => {
+            const exit: ExitLike<number, string> = Exit.succeed(5);
+            const result: Result<number, string> = from_exit(exit);
+            expect(result).toBeOkWith(5);
+            expect(from_exit(Exit.fail("failed"))).toBeErrWith("failed");
+        });
+
+        it('finds the expected error in composite causes', () => {
+            const exit = Exit.failCause<string>({
+                _tag: 'Parallel',
+                left: { _tag: 'Interrupt', fiberId: 1 },
+                right: { _tag: 'Sequential', left: { _tag: 'Fail', error: "first" }, right: { _tag: 'Fail', error: "second" } },
+            });
+            expect(from_exit(exit)).toBeErrWith("first");
+        });
+
+        it('panics on failures without an expected error', () => {
+            const cause: CauseLike<string> = { _tag: 'Die', defect: new TypeError("boom") };
+            expect(() => from_exit(Exit.failCause(cause))).toThrow(Panic);
+            expect(() => from_exit(Exit.failCause({ _tag: 'Interrupt', fiberId: 1 }))).toThrow(Panic);
+        });
+
+        it('converts to Exits with their constructors', () => {
+            expect(to_exit(Ok(5), Exit.succeed, Exit.fail)).toEqual({ _tag: 'Success', value: 5 });
+            expect(to_exit(Err("failed"), Exit.succeed, Exit.fail)).toEqual(Exit.fail("failed"));
+        });
+
+        it('detects the shape', () => {
+            expect(is_exit(Exit.succeed(5))).toBe(true);
+            expect(is_exit(Exit.fail("failed"))).toBe(true);
+            expect(is_exit({ _tag: 'Failure', cause: "failed" })).toBe(false);
+            expect(is_exit(Ok(5))).toBe(false);
+        });
+
+        it('round-trips', () => {
+            fc.assert(fc.property(arbitrary, result => from_exit(to_exit(result, Exit.succeed, Exit.fail)).eq(result)));
+            fc.assert(fc.property(arbitrary, result => {
+                const exit = to_exit(result, Exit.succeed, Exit.fail);
+                expect(to_exit(from_exit(exit), Exit.succeed, Exit.fail)).toEqual(exit);
+            }));
+        });
+    });
+});
@@ -0,0 +1,214 @@
+import { Option, OptionSome, OptionNone } from './option';
+import { Result, ResultOk, ResultErr } from './result';
+import { Panic, panic } from './panic';
+
+/**
+ * The shape of neverthrow's `Ok` and `Err`: `isOk()` tells them apart, `Ok` holds a `value` and `Err` an `error`.
+ */
+export type NeverthrowResultLike<T, E> =
+    { isOk(): boolean; readonly value: T } | { isOk(): boolean; readonly error: E };
+
+/**
+ * The shape of fp-ts's `Either`.
+ */
+export type EitherLike<E, A> =
+    { readonly _tag: 'Left'; readonly left: E } | { readonly _tag: 'Right'; readonly right: A };
+
+/**
+ * The shape of fp-ts's `Option`.
+ */
+export type FpOptionLike<A> =
+    { readonly _tag: 'None' } | { readonly _tag: 'Some'; readonly value: A };
+
+/**
+ * The shape of Effect's `Cause`, the reason an `Exit` failed.
+ */
+export type CauseLike<E> =
+    | { readonly _tag: 'Empty' }
+    | { readonly _tag: 'Fail'; readonly error: E }
+    | { readonly _tag: 'Die'; readonly defect: unknown }
+    | { readonly _tag: 'Interrupt'; readonly fiberId: unknown }
+    | { readonly _tag: 'Sequential' | 'Parallel'; readonly left: CauseLike<E>; readonly right: CauseLike<E> };
+
+/**
+ * The shape of Effect's `Exit`.
+ */
+export type ExitLike<A, E> =
+    { readonly _tag: 'Success'; readonly value: A } | { readonly _tag: 'Failure'; readonly cause: CauseLike<E> };
+
+const is_object = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null;
+
+/**
+ * Checks if a value has the shape of a neverthrow `Ok` or `Err`.
+ * @param value The value to check.
+ * @returns true if the value has an `isOk` method and a `value` or an `error`.
+ *
+ * Usage Example:
+ * is_neverthrow_result(ok(5)); // true
+ */
+export const is_neverthrow_result = (value: unknown): value is NeverthrowResultLike<unknown, unknown> =>
+    is_object(value) && typeof value.isOk === 'function' && ('value' in value || 'error' in value);
+
+/**
+ * Checks if a value has the shape of an fp-ts `Either`.
+ * @param value The value to check.
+ * @returns true if the value is a `Left` or a `Right`.
+ *
+ * Usage Example:
+ * is_either(E.right(5)); // true
+ */
+export const is_either = (value: unknown): value is EitherLike<unknown, unknown> =>
+    is_object(value) && (value._tag === 'Left' && 'left' in value || value._tag === 'Right' && 'right' in value);
+
+/**
+ * Checks if a value has the shape of an fp-ts `Option`.
+ * @param value The value to check.
+ * @returns true if the value is an fp-ts `None` or `Some`; rsult's own Options, which share the shape, are excluded.
+ *
+ * Usage Example:
+ * is_fp_option(O.some(5)); // true
+ * is_fp_option(Some(5)); // false
+ */
+export const is_fp_option = (value: unknown): value is FpOptionLike<unknown> =>
+    is_object(value) && !(value instanceof OptionSome || value instanceof OptionNone) &&
+    (value._tag === 'None' || value._tag === 'Some' && 'value' in value);
+
+/**
+ * Checks if a value has the shape of an Effect `Exit`.
+ * @param value The value to check.
+ * @returns true if the value is a `Success` or a `Failure` with a `Cause`.
+ *
+ * Usage Example:
+ * is_exit(Exit.succeed(5)); // true
+ */
+export const is_exit = (value: unknown): value is ExitLike<unknown, unknown> =>
+    is_object(value) && (
+        value._tag === 'Success' && 'value' in value ||
+        value._tag === 'Failure' && is_object(value.cause) && typeof value.cause._tag === 'string'
+    );
+
+/**
+ * Converts a neverthrow `Ok` or `Err` into a `Result`.
+ * @param result The neverthrow result.
+ * @returns Ok with the value of an `Ok`, or Err with the error of an `Err`.
+ *
+ * Usage Example:
+ * const user = from_neverthrow(await legacy.get_user(id)); // Result<User, ApiError>
+ */
+export const from_neverthrow = <T, E>(result: NeverthrowResultLike<T, E>): Result<T, E> =>
+    result.isOk()
+        ? new ResultOk<T, E>((result as { value: T }).value)
+        : new ResultErr<T, E>((result as { error: E }).error);
+
+/**
+ * Converts a `Result` into a neverthrow result, using neverthrow's own constructors so that the
+ * returned value has its full API.
+ * @param result The Result to convert.
+ * @param ok neverthrow's `ok`.
+ * @param err neverthrow's `err`.
+ * @returns The neverthrow result.
+ *
+ * Usage Example:
+ * import { ok, err } from 'neverthrow';
+ * const legacy_result = to_neverthrow(parse(input), ok, err); // neverthrow's Result<number, ParseError>
+ */
+export const to_neverthrow = <T, E, O, F>(result: Result<T, E>, ok: (value: T) => O, err: (error: E) => F): O | F =>
+    result.is_ok() ? ok(result.value) : err(result.value);
+
+/**
+ * Converts an fp-ts `Either` into a `Result`.
+ * @param either The Either.
+ * @returns Ok with the value of a `Right`, or Err with the value of a `Left`.
+ *
+ * Usage Example:
+ * const config = from_either(decoder.decode(json)); // Result<Config, Errors>
+ */
+export const from_either = <E, A>(either: EitherLike<E, A>): Result<A, E> =>
+    either._tag === 'Right' ? new ResultOk<A, E>(either.right) : new ResultErr<A, E>(either.left);
+
+/**
+ * Converts a `Result` into an fp-ts `Either`.
+ * @param result The Result to convert.
+ * @returns A `Right` with the value of an Ok, or a `Left` with the error of an Err.
+ *
+ * Usage Example:
+ * pipe(to_either(parse(input)), E.map(x => x * 2));
+ */
+export const to_either = <T, E>(result: Result<T, E>): EitherLike<E, T> =>
+    result.is_ok() ? { _tag: 'Right', right: result.value } : { _tag: 'Left', left: result.value };
+
+/**
+ * Converts an fp-ts `Option` into an `Option`.
+ * @param option The fp-ts Option.
+ * @returns Some with the value of a `Some`, or None.
+ *
+ * Usage Example:
+ * const head = from_fp_option(A.head(items)); // Option<Item>
+ */
+export const from_fp_option = <A>(option: FpOptionLike<A>): Option<A> =>
+    option._tag === 'Some' ? new OptionSome<A>(option.value) : new OptionNone<A>();
+
+/**
+ * Converts an `Option` into an fp-ts `Option`.
+ * @param option The Option to convert.
+ * @returns An fp-ts `Some` with the contained value, or an fp-ts `None`.
+ *
+ * Usage Example:
+ * pipe(to_fp_option(find_user(id)), O.map(user => user.name));
+ */
+export const to_fp_option = <A>(option: Option<A>): FpOptionLike<A> =>
+    option.is_some() ? { _tag: 'Some', value: option.value } : { _tag: 'None' };
+
+// finds the first expected error in a cause, depth first
+const find_failure = <E>(cause: CauseLike<E>): Option<E> => {
+    switch (cause._tag) {
+        case 'Fail':
+            return new OptionSome(cause.error);
+        case 'Sequential':
+        case 'Parallel':
+            return find_failure(cause.left).or_else(() => find_failure(cause.right));
+        default:
+            return new OptionNone<E>();
+    }
+};
+
+/**
+ * Converts an Effect `Exit` into a `Result`. A failure with an expected error (`Cause.fail`) becomes
+ * an `Err`; a failure without one, e.g. a defect or an interruption, is not a recoverable error, so
+ * it panics with the cause as the payload.
+ * @param exit The Exit.
+ * @returns Ok with the value of a `Success`, or Err with the first expected error of a `Failure`.
+ * @throws Panic if the failure has no expected error.
+ *
+ * Usage Example:
+ * const user = from_exit(await Effect.runPromiseExit(get_user(id))); // Result<User, NotFound>
+ */
+export const from_exit = <A, E>(exit: ExitLike<A, E>): Result<A, E> => {
+    if (exit._tag === 'Success') {
+        return new ResultOk<A, E>(exit.value);
+    }
+
+    const failure = find_failure(exit.cause);
+
+    if (failure.is_none()) {
+        return panic(new Panic('Effect Exit failed without an expected error', exit.cause));
+    }
+
+    return new ResultErr<A, E>(failure.value);
+};
+
+/**
+ * Converts a `Result` into an Effect `Exit`, using Effect's own constructors so that the returned
+ * value is a real Exit.
+ * @param result The Result to convert.
+ * @param succeed Effect's `Exit.succeed`.
+ * @param fail Effect's `Exit.fail`.
+ * @returns The Exit.
+ *
+ * Usage Example:
+ * import { Exit } from 'effect';
+ * const exit = to_exit(parse(input), Exit.succeed, Exit.fail); // Exit<number, ParseError>
+ */
+export const to_exit = <T, E, S, F>(result: Result<T, E>, succeed: (value: T) => S, fail: (error: E) => F): S | F =>
+    result.is_ok() ? succeed(result.value) : fail(result.value);
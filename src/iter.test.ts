@@ -0,0 +1,173 @@
+import { Iter, iter } from './iter';
+import { Option, Some, None } from './option';
+import { Result, Ok, Err } from './result';
+import { Ordering } from './cmp';
+
+const parse = (text: string): Result<number, string> => {
+    const value = Number(text);
+
+    return Number.isNaN(value) ? Err(`not a number: ${text}`) : Ok(value);
+};
+
+function* naturals() {
+    let n = 0;
+
+    while (true) {
+        yield n++;
+    }
+}
+
+describe('Iter', () => {
+    describe('Adapters', () => {
+        it('map() and filter() transform lazily', () => {
+            const seen: number[] = [];
+            const mapped = iter([1, 2, 3, 4])
+                .inspect(x => seen.push(x))
+                .map(x => x * 10)
+                .filter(x => x > 10);
+
+            expect(seen).toEqual([]);
+            expect(mapped.next()).toBeSome(20);
+            expect(seen).toEqual([1, 2]);
+        });
+
+        it('filter_map() keeps the contained values of Somes', () => {
+            const values = iter(["1", "two", "3"]).filter_map(text => parse(text).ok()).collect();
+            expect(values).toEqual([1, 3]);
+        });
+
+        it('take_while() and skip_while() split at the first non-matching item', () => {
+            expect(iter([1, 2, 5, 1]).take_while(x => x < 3).collect()).toEqual([1, 2]);
+            expect(iter([1, 2, 5, 1]).skip_while(x => x < 3).collect()).toEqual([5, 1]);
+        });
+
+        it('take() and skip() work on infinite iterables', () => {
+            expect(iter(naturals()).skip(2).take(3).collect()).toEqual([2, 3, 4]);
+            expect(iter(naturals()).take(0).collect()).toEqual([]);
+        });
+
+        it('zip() stops at the shorter iterable', () => {
+            expect(iter([1, 2, 3]).zip(["a", "b"]).collect()).toEqual([[1, "a"], [2, "b"]]);
+            expect(iter(naturals()).zip(["a"]).collect()).toEqual([[0, "a"]]);
+        });
+
+        it('chain() continues with another iterable', () => {
+            expect(iter([1, 2]).chain(new Set([3])).collect()).toEqual([1, 2, 3]);
+        });
+
+        it('step_by() yields the first and every n-th item after it', () => {
+            expect(iter([0, 1, 2, 3, 4]).step_by(2).collect()).toEqual([0, 2, 4]);
+            expect(() => iter([1]).step_by(0)).toThrow(RangeError);
+        });
+
+        it('enumerate() pairs items with their index', () => {
+            expect(iter(["a", "b"]).enumerate().collect()).toEqual([[0, "a"], [1, "b"]]);
+        });
+    });
+
+    describe('Consumers', () => {
+        it('next() returns Some until the Iter is exhausted', () => {
+            const numbers = iter([1]);
+            expect(numbers.next()).toBeSome(1);
+            expect(numbers.next()).toBeNone();
+        });
+
+        it('nth() and last() return None when out of range', () => {
+            expect(iter(["a", "b", "c"]).nth(1)).toBeSome("b");
+            expect(iter(["a"]).nth(1)).toBeNone();
+            expect(iter([1, 2, 3]).last()).toBeSome(3);
+            expect(iter([]).last()).toBeNone();
+        });
+
+        it('find(), find_map() and position() return Options', () => {
+            expect(iter([1, 4, 6]).find(x => x % 2 === 0)).toBeSome(4);
+            expect(iter([1, 3]).find(x => x % 2 === 0)).toBeNone();
+            expect(iter(["one", "2", "3"]).find_map(text => parse(text).ok())).toBeSome(2);
+            expect(iter(["a", "b"]).position(x => x === "b")).toBeSome(1);
+            expect(iter(["a", "b"]).position(x => x === "c")).toBeNone();
+        });
+
+        it('stopping early leaves the Iter usable', () => {
+            const numbers = iter(naturals());
+            expect(numbers.find(x => x > 2)).toBeSome(3);
+            expect(numbers.next()).toBeSome(4);
+        });
+
+        it('any(), all() and count() consume the items', () => {
+            expect(iter([1, 2]).any(x => x > 1)).toBe(true);
+            expect(iter([1, 2]).all(x => x > 1)).toBe(false);
+            expect(iter([]).all(() => false)).toBe(true);
+            expect(iter([1, 2, 3]).filter(x => x > 1).count()).toBe(2);
+        });
+
+        it('fold() and reduce() combine the items', () => {
+            expect(iter([1, 2, 3]).fold(0, (sum, x) => sum + x)).toBe(6);
+            expect(iter([1, 2, 3]).reduce((a, b) => a + b)).toBeSome(6);
+            expect(iter<number>([]).reduce((a, b) => a + b)).toBeNone();
+        });
+
+        it('max_by() returns the last and min_by() the first of equal items', () => {
+            const users = [{ name: "a", age: 30 }, { name: "b", age: 20 }, { name: "c", age: 30 }, { name: "d", age: 20 }];
+            expect(iter(users).max_by_key(user => user.age).map(user => user.name)).toBeSome("c");
+            expect(iter(users).min_by_key(user => user.age).map(user => user.name)).toBeSome("b");
+            expect(iter([Some(2), None<number>(), Some(1)]).min_by()).toBeSome(None());
+            expect(iter([1, 3, 2]).max_by((a, b) => b > a ? Ordering.Greater : a > b ? Ordering.Less : Ordering.Equal)).toBeSome(1);
+            expect(iter<number>([]).max_by()).toBeNone();
+        });
+
+        it('try_fold() stops at the first Err', () => {
+            const checked_add = (a: number, b: number): Result<number, string> => a + b > 255 ? Err("overflow") : Ok(a + b);
+            expect(iter([100, 100]).try_fold(0, checked_add)).toBeOkWith(200);
+
+            const seen: number[] = [];
+            const result = iter([100, 200, 300]).inspect(x => seen.push(x)).try_fold(0, checked_add);
+            expect(result).toBeErrWith("overflow");
+            expect(seen).toEqual([100, 200]);
+        });
+
+        it('try_for_each() stops at the first Err', () => {
+            const written: string[] = [];
+            const write = (file: string): Result<number, string> => {
+                if (file === "") {
+                    return Err("empty name");
+                }
+
+                written.push(file);
+
+                return Ok(file.length);
+            };
+
+            expect(iter(["a", "b"]).try_for_each(write)).toBeOkWith(undefined);
+            expect(iter(["c", "", "d"]).try_for_each(write)).toBeErrWith("empty name");
+            expect(written).toEqual(["a", "b", "c"]);
+        });
+
+        it('try_collect() collects Results into a Result of an array', () => {
+            expect(iter(["1", "2"]).map(parse).try_collect()).toBeOkWith([1, 2]);
+            expect(iter(["1", "two", "three"]).map(parse).try_collect()).toBeErrWith("not a number: two");
+            expect(iter<Result<number, string>>([]).try_collect()).toBeOkWith([]);
+        });
+
+        it('for_each() and collect() visit every item', () => {
+            const seen: number[] = [];
+            iter(new Set([1, 2])).for_each(x => seen.push(x));
+            expect(seen).toEqual([1, 2]);
+            expect(iter(new Map([["a", 1]])).collect()).toEqual([["a", 1]]);
+        });
+    });
+
+    describe('.iter()', () => {
+        it('returns an Iter from Options and Results', () => {
+            expect(Some(5).iter()).toBeInstanceOf(Iter);
+            expect(Some(4).iter().chain([6, 7]).filter(x => x % 2 === 0).collect()).toEqual([4, 6]);
+            expect(None<number>().iter().next()).toBeNone();
+            expect(Ok(5).iter().map(x => x * 2).next()).toBeSome(10);
+            expect(Err("failed").iter_err().find(e => e.startsWith("f"))).toBeSome("failed");
+        });
+
+        it('can be spread', () => {
+            const options: Option<number>[] = [Some(1), None(), Some(3)];
+            expect(options.flatMap(option => [...option.iter()])).toEqual([1, 3]);
+        });
+    });
+});
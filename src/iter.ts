@@ -0,0 +1,627 @@
+import { Option, OptionSome, OptionNone } from './option';
+import { Result, ResultOk, ResultErr } from './result';
+import { Ordering, compare } from './cmp';
+
+/**
+ * A lazy iterator over any iterable, modelled after Rust's `Iterator`: adapters such as `map` and
+ * `filter` do no work until a consumer pulls items, and consumers return `Option`s and `Result`s
+ * instead of `undefined` or exceptions. Like a Rust iterator, an `Iter` is consumed as it is used.
+ * It is iterable itself, so it can be spread or used with `for...of`.
+ *
+ * Usage Example:
+ * const first_even = iter([1, 3, 4, 6])
+ *     .map(x => x * 10)
+ *     .find(x => x % 20 === 0); // Some(40)
+ */
+export class Iter<T> implements Iterable<T> {
+    private readonly _iterator: Iterator<T>;
+
+    constructor(iterable: Iterable<T>) {
+        this._iterator = iterable[Symbol.iterator]();
+    }
+
+    /**
+     * Lazily transforms every item with a function.
+     * @param fn The function to apply to each item.
+     * @returns An Iter over the transformed items.
+     *
+     * Usage Example:
+     * iter([1, 2]).map(x => x * 2).collect(); // [2, 4]
+     */
+    map<U>(fn: (item: T) => U): Iter<U> {
+        const self = this;
+
+        return new Iter((function* () {
+            for (const item of self) {
+                yield fn(item);
+            }
+        })());
+    }
+
+    /**
+     * Lazily keeps only the items satisfying a predicate.
+     * @param predicate The predicate to apply to each item.
+     * @returns An Iter over the items for which the predicate returns true.
+     *
+     * Usage Example:
+     * iter([1, 2, 3, 4]).filter(x => x % 2 === 0).collect(); // [2, 4]
+     */
+    filter(predicate: (item: T) => boolean): Iter<T> {
+        const self = this;
+
+        return new Iter((function* () {
+            for (const item of self) {
+                if (predicate(item)) {
+                    yield item;
+                }
+            }
+        })());
+    }
+
+    /**
+     * Lazily maps every item to an Option, keeping only the contained values of the Somes.
+     * @param fn The function producing an Option for each item.
+     * @returns An Iter over the contained values.
+     *
+     * Usage Example:
+     * iter(["1", "two", "3"]).filter_map(parse_int).collect(); // [1, 3]
+     */
+    filter_map<U>(fn: (item: T) => Option<U>): Iter<U> {
+        const self = this;
+
+        return new Iter((function* () {
+            for (const item of self) {
+                const option = fn(item);
+
+                if (option.is_some()) {
+                    yield option.value;
+                }
+            }
+        })());
+    }
+
+    /**
+     * Lazily yields items while they satisfy a predicate, stopping at the first one that does not.
+     * @param predicate The predicate to apply to each item.
+     * @returns An Iter over the leading items satisfying the predicate.
+     *
+     * Usage Example:
+     * iter([1, 2, 5, 1]).take_while(x => x < 3).collect(); // [1, 2]
+     */
+    take_while(predicate: (item: T) => boolean): Iter<T> {
+        const self = this;
+
+        return new Iter((function* () {
+            for (const item of self) {
+                if (!predicate(item)) {
+                    return;
+                }
+
+                yield item;
+            }
+        })());
+    }
+
+    /**
+     * Lazily skips items while they satisfy a predicate, then yields all remaining items.
+     * @param predicate The predicate to apply to the leading items.
+     * @returns An Iter over the items from the first one not satisfying the predicate.
+     *
+     * Usage Example:
+     * iter([1, 2, 5, 1]).skip_while(x => x < 3).collect(); // [5, 1]
+     */
+    skip_while(predicate: (item: T) => boolean): Iter<T> {
+        const self = this;
+
+        return new Iter((function* () {
+            let skipping = true;
+
+            for (const item of self) {
+                if (skipping && predicate(item)) {
+                    continue;
+                }
+
+                skipping = false;
+                yield item;
+            }
+        })());
+    }
+
+    /**
+     * Lazily yields at most the first `n` items.
+     * @param n The number of items to yield.
+     * @returns An Iter over the first `n` items.
+     *
+     * Usage Example:
+     * iter(naturals()).take(3).collect(); // [0, 1, 2]
+     */
+    take(n: number): Iter<T> {
+        const self = this;
+
+        return new Iter((function* () {
+            if (n <= 0) {
+                return;
+            }
+
+            let taken = 0;
+
+            for (const item of self) {
+                yield item;
+
+                if (++taken >= n) {
+                    return;
+                }
+            }
+        })());
+    }
+
+    /**
+     * Lazily skips the first `n` items.
+     * @param n The number of items to skip.
+     * @returns An Iter over the items after the first `n`.
+     *
+     * Usage Example:
+     * iter([1, 2, 3]).skip(2).collect(); // [3]
+     */
+    skip(n: number): Iter<T> {
+        const self = this;
+
+        return new Iter((function* () {
+            let skipped = 0;
+
+            for (const item of self) {
+                if (skipped++ >= n) {
+                    yield item;
+                }
+            }
+        })());
+    }
+
+    /**
+     * Lazily pairs every item with the item at the same position of another iterable,
+     * stopping when either runs out.
+     * @param other The iterable to zip with.
+     * @returns An Iter over pairs of items.
+     *
+     * Usage Example:
+     * iter([1, 2, 3]).zip(["a", "b"]).collect(); // [[1, "a"], [2, "b"]]
+     */
+    zip<U>(other: Iterable<U>): Iter<[T, U]> {
+        const self = this;
+
+        return new Iter((function* () {
+            const others = other[Symbol.iterator]();
+
+            for (const item of self) {
+                const step = others.next();
+
+                if (step.done) {
+                    return;
+                }
+
+                yield [item, step.value] as [T, U];
+            }
+        })());
+    }
+
+    /**
+     * Lazily yields all items of this Iter, followed by all items of another iterable.
+     * @param other The iterable to continue with.
+     * @returns An Iter over the items of both.
+     *
+     * Usage Example:
+     * iter([1, 2]).chain([3]).collect(); // [1, 2, 3]
+     */
+    chain<U = T>(other: Iterable<U>): Iter<T | U> {
+        const self = this;
+
+        return new Iter((function* () {
+            yield* self;
+            yield* other;
+        })());
+    }
+
+    /**
+     * Lazily yields the first item and then every `step`-th item after it.
+     * @param step The distance between yielded items, which must be positive.
+     * @returns An Iter over every `step`-th item.
+     * @throws RangeError if `step` is not positive.
+     *
+     * Usage Example:
+     * iter([0, 1, 2, 3, 4]).step_by(2).collect(); // [0, 2, 4]
+     */
+    step_by(step: number): Iter<T> {
+        if (step <= 0) {
+            throw new RangeError(`Iter.step_by() expects a positive step, got ${step}`);
+        }
+
+        const self = this;
+
+        return new Iter((function* () {
+            let index = 0;
+
+            for (const item of self) {
+                if (index++ % step === 0) {
+                    yield item;
+                }
+            }
+        })());
+    }
+
+    /**
+     * Lazily pairs every item with its index.
+     * @returns An Iter over `[index, item]` pairs.
+     *
+     * Usage Example:
+     * iter(["a", "b"]).enumerate().collect(); // [[0, "a"], [1, "b"]]
+     */
+    enumerate(): Iter<[number, T]> {
+        const self = this;
+
+        return new Iter((function* () {
+            let index = 0;
+
+            for (const item of self) {
+                yield [index++, item] as [number, T];
+            }
+        })());
+    }
+
+    /**
+     * Lazily calls a function with every item as it passes through, e.g. for logging.
+     * @param fn The function to call with each item.
+     * @returns An Iter over the unmodified items.
+     *
+     * Usage Example:
+     * iter([1, 2]).inspect(x => console.log(x)).collect(); // logs 1 and 2
+     */
+    inspect(fn: (item: T) => void): Iter<T> {
+        return this.map(item => {
+            fn(item);
+
+            return item;
+        });
+    }
+
+    /**
+     * Advances the Iter and returns the next item.
+     * @returns Some with the next item, or None if the Iter is exhausted.
+     *
+     * Usage Example:
+     * const numbers = iter([1]);
+     * numbers.next(); // Some(1)
+     * numbers.next(); // None
+     */
+    next(): Option<T> {
+        const step = this._iterator.next();
+
+        return step.done ? new OptionNone<T>() : new OptionSome<T>(step.value);
+    }
+
+    /**
+     * Returns the `n`-th item, counting from zero, consuming it and all items before it.
+     * @param n The index of the item.
+     * @returns Some with the item, or None if the Iter has no more than `n` items.
+     *
+     * Usage Example:
+     * iter(["a", "b", "c"]).nth(1); // Some("b")
+     */
+    nth(n: number): Option<T> {
+        for (let i = 0; i < n; i++) {
+            if (this.next().is_none()) {
+                return new OptionNone<T>();
+            }
+        }
+
+        return this.next();
+    }
+
+    /**
+     * Consumes the Iter and returns its last item.
+     * @returns Some with the last item, or None if the Iter is empty.
+     *
+     * Usage Example:
+     * iter([1, 2, 3]).last(); // Some(3)
+     */
+    last(): Option<T> {
+        let last: Option<T> = new OptionNone<T>();
+
+        for (const item of this) {
+            last = new OptionSome(item);
+        }
+
+        return last;
+    }
+
+    /**
+     * Consumes the Iter and counts its items.
+     * @returns The number of items.
+     *
+     * Usage Example:
+     * iter([1, 2, 3]).filter(x => x > 1).count(); // 2
+     */
+    count(): number {
+        let count = 0;
+
+        for (const _ of this) {
+            count++;
+        }
+
+        return count;
+    }
+
+    /**
+     * Returns the first item satisfying a predicate, consuming the items up to it.
+     * @param predicate The predicate to apply to each item.
+     * @returns Some with the first matching item, or None if no item matches.
+     *
+     * Usage Example:
+     * iter(users).find(user => user.admin); // Some(user) or None
+     */
+    find(predicate: (item: T) => boolean): Option<T> {
+        for (const item of this) {
+            if (predicate(item)) {
+                return new OptionSome(item);
+            }
+        }
+
+        return new OptionNone<T>();
+    }
+
+    /**
+     * Maps items to Options and returns the first Some, consuming the items up to it.
+     * @param fn The function producing an Option for each item.
+     * @returns The first Some produced, or None.
+     *
+     * Usage Example:
+     * iter(["one", "2", "3"]).find_map(parse_int); // Some(2)
+     */
+    find_map<U>(fn: (item: T) => Option<U>): Option<U> {
+        for (const item of this) {
+            const option = fn(item);
+
+            if (option.is_some()) {
+                return option;
+            }
+        }
+
+        return new OptionNone<U>();
+    }
+
+    /**
+     * Returns the index of the first item satisfying a predicate, consuming the items up to it.
+     * @param predicate The predicate to apply to each item.
+     * @returns Some with the index of the first matching item, or None if no item matches.
+     *
+     * Usage Example:
+     * iter(["a", "b"]).position(x => x === "b"); // Some(1)
+     */
+    position(predicate: (item: T) => boolean): Option<number> {
+        let index = 0;
+
+        for (const item of this) {
+            if (predicate(item)) {
+                return new OptionSome(index);
+            }
+
+            index++;
+        }
+
+        return new OptionNone<number>();
+    }
+
+    /**
+     * Checks if any item satisfies a predicate, stopping at the first one that does.
+     * @param predicate The predicate to apply to each item.
+     * @returns true if any item satisfies the predicate, otherwise false.
+     *
+     * Usage Example:
+     * iter([1, 2]).any(x => x > 1); // true
+     */
+    any(predicate: (item: T) => boolean): boolean {
+        return this.find(predicate).is_some();
+    }
+
+    /**
+     * Checks if every item satisfies a predicate, stopping at the first one that does not.
+     * @param predicate The predicate to apply to each item.
+     * @returns true if every item satisfies the predicate (or the Iter is empty), otherwise false.
+     *
+     * Usage Example:
+     * iter([1, 2]).all(x => x > 1); // false
+     */
+    all(predicate: (item: T) => boolean): boolean {
+        return this.find(item => !predicate(item)).is_none();
+    }
+
+    /**
+     * Consumes the Iter, folding every item into an accumulator.
+     * @param init The initial value of the accumulator.
+     * @param fn The function combining the accumulator with an item.
+     * @returns The final accumulator.
+     *
+     * Usage Example:
+     * iter([1, 2, 3]).fold(0, (sum, x) => sum + x); // 6
+     */
+    fold<A>(init: A, fn: (acc: A, item: T) => A): A {
+        let acc = init;
+
+        for (const item of this) {
+            acc = fn(acc, item);
+        }
+
+        return acc;
+    }
+
+    /**
+     * Consumes the Iter, folding every item into the first one.
+     * @param fn The function combining the accumulator with an item.
+     * @returns Some with the final accumulator, or None if the Iter is empty.
+     *
+     * Usage Example:
+     * iter([1, 2, 3]).reduce((a, b) => a + b); // Some(6)
+     * iter<number>([]).reduce((a, b) => a + b); // None
+     */
+    reduce(fn: (acc: T, item: T) => T): Option<T> {
+        return this.next().map(first => this.fold(first, fn));
+    }
+
+    /**
+     * Folds every item into an accumulator with a fallible function, stopping at the first `Err`.
+     * @param init The initial value of the accumulator.
+     * @param fn The function combining the accumulator with an item.
+     * @returns Ok with the final accumulator, or the first Err returned by `fn`.
+     *
+     * Usage Example:
+     * iter([100, 100]).try_fold(0, (sum, x) => checked_add_u8(sum, x)); // Ok(200)
+     */
+    try_fold<A, E>(init: A, fn: (acc: A, item: T) => Result<A, E>): Result<A, E> {
+        let acc = init;
+
+        for (const item of this) {
+            const result = fn(acc, item);
+
+            if (result.is_err()) {
+                return result;
+            }
+
+            acc = result.value;
+        }
+
+        return new ResultOk<A, E>(acc);
+    }
+
+    /**
+     * Calls a fallible function with every item, stopping at the first `Err`.
+     * @param fn The function to call with each item.
+     * @returns Ok, or the first Err returned by `fn`.
+     *
+     * Usage Example:
+     * iter(files).try_for_each(file => write(file)); // Result<void, IoError>
+     */
+    try_for_each<E>(fn: (item: T) => Result<unknown, E>): Result<void, E> {
+        for (const item of this) {
+            const result = fn(item);
+
+            if (result.is_err()) {
+                return new ResultErr<void, E>(result.value);
+            }
+        }
+
+        return new ResultOk<void, E>(undefined);
+    }
+
+    /**
+     * Collects an Iter of Results into a Result of an array, stopping at the first `Err`.
+     * @returns Ok with all contained values, or the first Err.
+     *
+     * Usage Example:
+     * iter(["1", "2"]).map(parse).try_collect(); // Ok([1, 2])
+     * iter(["1", "two"]).map(parse).try_collect(); // Err(ParseError)
+     */
+    try_collect<U, E>(this: Iter<Result<U, E>>): Result<U[], E> {
+        const values: U[] = [];
+
+        for (const result of this) {
+            if (result.is_err()) {
+                return result as any;
+            }
+
+            values.push(result.value);
+        }
+
+        return new ResultOk<U[], E>(values);
+    }
+
+    /**
+     * Calls a function with every item.
+     * @param fn The function to call with each item.
+     *
+     * Usage Example:
+     * iter(users).for_each(user => notify(user));
+     */
+    for_each(fn: (item: T) => void): void {
+        for (const item of this) {
+            fn(item);
+        }
+    }
+
+    /**
+     * Returns the greatest item according to a comparison function. If several items are equally
+     * greatest, the last one is returned, like in Rust.
+     * @param cmpFn The comparison function, defaults to `compare`.
+     * @returns Some with the greatest item, or None if the Iter is empty.
+     *
+     * Usage Example:
+     * iter([1, 3, 2]).max_by(); // Some(3)
+     */
+    max_by(cmpFn: (a: T, b: T) => Ordering = compare): Option<T> {
+        return this.reduce((max, item) => cmpFn(item, max) >= Ordering.Equal ? item : max);
+    }
+
+    /**
+     * Returns the least item according to a comparison function. If several items are equally
+     * least, the first one is returned, like in Rust.
+     * @param cmpFn The comparison function, defaults to `compare`.
+     * @returns Some with the least item, or None if the Iter is empty.
+     *
+     * Usage Example:
+     * iter([Some(2), None(), Some(1)]).min_by(); // Some(None())
+     */
+    min_by(cmpFn: (a: T, b: T) => Ordering = compare): Option<T> {
+        return this.reduce((min, item) => cmpFn(item, min) < Ordering.Equal ? item : min);
+    }
+
+    /**
+     * Returns the item with the greatest key. If several items are equally greatest, the last one is returned.
+     * @param key The function computing the key of an item.
+     * @returns Some with the item with the greatest key, or None if the Iter is empty.
+     *
+     * Usage Example:
+     * iter(users).max_by_key(user => user.age); // Some(oldest)
+     */
+    max_by_key<K>(key: (item: T) => K): Option<T> {
+        return this.max_by((a, b) => compare(key(a), key(b)));
+    }
+
+    /**
+     * Returns the item with the least key. If several items are equally least, the first one is returned.
+     * @param key The function computing the key of an item.
+     * @returns Some with the item with the least key, or None if the Iter is empty.
+     *
+     * Usage Example:
+     * iter(users).min_by_key(user => user.age); // Some(youngest)
+     */
+    min_by_key<K>(key: (item: T) => K): Option<T> {
+        return this.min_by((a, b) => compare(key(a), key(b)));
+    }
+
+    /**
+     * Consumes the Iter into an array.
+     * @returns An array of all remaining items.
+     *
+     * Usage Example:
+     * iter(new Set([1, 2])).collect(); // [1, 2]
+     */
+    collect(): T[] {
+        return [...this];
+    }
+
+    [Symbol.iterator](): Iterator<T> {
+        // without `return`, breaking out of a loop does not close the underlying iterator,
+        // so the Iter can still be used after consumers like `find` stop early
+        return { next: () => this._iterator.next() };
+    }
+}
+
+/**
+ * Creates a lazy `Iter` over any iterable, such as an array, a `Set`, a `Map` or a generator.
+ * @param iterable The iterable to iterate over.
+ * @returns An Iter over the items of the iterable.
+ *
+ * Usage Example:
+ * const names = iter(users).filter_map(user => option_from_nullable(user.name)).collect();
+ */
+export const iter = <T>(iterable: Iterable<T>): Iter<T> => {
+    return new Iter(iterable);
+};
@@ -0,0 +1,64 @@
+import { Ok, Err } from './result';
+import { Some, None } from './option';
+
+describe('jest matchers', () => {
+    it('toBeOk() and toBeErr() check the variant', () => {
+        expect(Ok(5)).toBeOk();
+        expect(Err("failed")).toBeErr();
+        expect(Err("failed")).not.toBeOk();
+        expect(Ok(5)).not.toBeErr();
+        expect(Some(5)).not.toBeOk();
+    });
+
+    it('toBeOkWith() and toBeErrWith() compare the payload recursively', () => {
+        expect(Ok({ id: 1, tags: ["a"] })).toBeOkWith({ id: 1, tags: ["a"] });
+        expect(Ok(5)).not.toBeOkWith(6);
+        expect(Err(5)).not.toBeOkWith(5);
+        expect(Err(new Error("failed"))).toBeErrWith(new Error("failed"));
+    });
+
+    it('toBeErrWith() supports asymmetric matchers', () => {
+        expect(Err(new TypeError("failed"))).toBeErrWith(expect.any(TypeError));
+        expect(Err({ code: 404, message: "Not Found" })).toBeErrWith(expect.objectContaining({ code: 404 }));
+    });
+
+    it('toBeSome() optionally compares the value', () => {
+        expect(Some(5)).toBeSome();
+        expect(Some(5)).toBeSome(5);
+        expect(Some(5)).not.toBeSome(6);
+        expect(None()).not.toBeSome();
+    });
+
+    it('toBeNone() checks for None', () => {
+        expect(None()).toBeNone();
+        expect(Some(5)).not.toBeNone();
+    });
+
+    it('prints both values readably when the variant does not match', () => {
+        expect(() => expect(Err("failed")).toBeOkWith(5)).toThrow(/Expected: .*Ok\(5\)[\s\S]*Received: .*Err\("failed"\)/);
+        expect(() => expect(Some(Ok(5))).toBeNone()).toThrow(/Received: .*Some\(Ok\(5\)\)/);
+    });
+
+    it('prints a diff when only the payload does not match', () => {
+        expect(() => expect(Ok({ id: 1 })).toBeOkWith({ id: 2 })).toThrow(/- Expected[\s\S]*\+ Received/);
+    });
+});
+
+describe('snapshot serializer', () => {
+    it('prints variants instead of class internals', () => {
+        expect(Ok(5)).toMatchInlineSnapshot(`Ok(5)`);
+        expect(Err("failed")).toMatchInlineSnapshot(`Err("failed")`);
+        expect(None()).toMatchInlineSnapshot(`None`);
+    });
+
+    it('prints nested values with the regular formatting', () => {
+        expect({ user: Some(Ok([1, 2])) }).toMatchInlineSnapshot(`
+{
+  "user": Some(Ok([
+    1,
+    2,
+  ])),
+}
+`);
+    });
+});
@@ -0,0 +1,142 @@
+import { OptionSome, OptionNone } from './option';
+import { ResultOk, ResultErr } from './result';
+
+declare global {
+    namespace jest {
+        interface Matchers<R> {
+            /**
+             * Checks that the received value is an `Ok`.
+             *
+             * Usage Example:
+             * expect(parse("5")).toBeOk();
+             */
+            toBeOk(): R;
+
+            /**
+             * Checks that the received value is an `Ok` whose value equals `expected`, recursively.
+             * Asymmetric matchers such as `expect.any(Number)` are supported.
+             *
+             * Usage Example:
+             * expect(parse("5")).toBeOkWith(5);
+             */
+            toBeOkWith(expected: unknown): R;
+
+            /**
+             * Checks that the received value is an `Err`.
+             *
+             * Usage Example:
+             * expect(parse("five")).toBeErr();
+             */
+            toBeErr(): R;
+
+            /**
+             * Checks that the received value is an `Err` whose error equals `expected`, recursively.
+             * Asymmetric matchers such as `expect.any(Error)` are supported.
+             *
+             * Usage Example:
+             * expect(parse("five")).toBeErrWith(expect.objectContaining({ message: "not a number" }));
+             */
+            toBeErrWith(expected: unknown): R;
+
+            /**
+             * Checks that the received value is a `Some`, and, if `expected` is given,
+             * that its value equals `expected`, recursively.
+             *
+             * Usage Example:
+             * expect(find(5)).toBeSome();
+             * expect(find(5)).toBeSome({ id: 5 });
+             */
+            toBeSome(expected?: unknown): R;
+
+            /**
+             * Checks that the received value is `None`.
+             *
+             * Usage Example:
+             * expect(find(-1)).toBeNone();
+             */
+            toBeNone(): R;
+        }
+    }
+}
+
+type Variant = ResultOk<unknown, unknown> | ResultErr<unknown, unknown> | OptionSome<unknown> | OptionNone<unknown>;
+
+const is_variant = (value: unknown): value is Variant =>
+    value instanceof ResultOk || value instanceof ResultErr || value instanceof OptionSome || value instanceof OptionNone;
+
+const name_of = (variant: Variant): string =>
+    variant instanceof ResultOk ? 'Ok' : variant instanceof ResultErr ? 'Err' : variant instanceof OptionSome ? 'Some' : 'None';
+
+const show = (context: jest.MatcherContext, value: unknown): string => {
+    if (!is_variant(value)) {
+        return context.utils.stringify(value);
+    }
+
+    return value instanceof OptionNone ? 'None' : `${name_of(value)}(${show(context, value.value)})`;
+};
+
+/**
+ * Creates a matcher checking that the received value is an instance of `variant`, and, if an expected
+ * value was passed, that its payload equals it.
+ */
+const variant_matcher = (matcher: string, variant: new (...args: any[]) => Variant, label: string) =>
+    function (this: jest.MatcherContext, received: unknown, ...args: unknown[]): jest.CustomMatcherResult {
+        const has_expected = args.length > 0;
+        const expected = args[0];
+        const is_instance = received instanceof variant;
+        const pass = is_instance && (!has_expected || this.equals((received as any).value, expected));
+
+        const message = () => {
+            const header = this.utils.matcherHint(matcher, undefined, has_expected ? 'expected' : '', { isNot: this.isNot });
+
+            // the variant matches but the payload does not, so a diff of the payloads is most readable
+            const diff = !this.isNot && is_instance && has_expected
+                ? this.utils.diff(expected, (received as any).value, { expand: this.expand })
+                : null;
+
+            if (diff) {
+                return `${header}\n\n${diff}`;
+            }
+
+            const shown_expected = has_expected ? `${label}(${show(this, expected)})` : label;
+
+            return `${header}\n\n`
+                + `Expected: ${this.isNot ? 'not ' : ''}${this.utils.EXPECTED_COLOR(shown_expected)}\n`
+                + `Received: ${this.utils.RECEIVED_COLOR(show(this, received))}`;
+        };
+
+        return { pass, message };
+    };
+
+/**
+ * The matchers added by this module, for registering them manually with `expect.extend`.
+ */
+export const matchers = {
+    toBeOk: variant_matcher('toBeOk', ResultOk, 'Ok'),
+    toBeOkWith: variant_matcher('toBeOkWith', ResultOk, 'Ok'),
+    toBeErr: variant_matcher('toBeErr', ResultErr, 'Err'),
+    toBeErrWith: variant_matcher('toBeErrWith', ResultErr, 'Err'),
+    toBeSome: variant_matcher('toBeSome', OptionSome, 'Some'),
+    toBeNone: variant_matcher('toBeNone', OptionNone, 'None'),
+};
+
+/**
+ * A snapshot serializer printing `Ok(5)`, `Err("failed")`, `Some([1, 2])` and `None`
+ * instead of the internals of the classes.
+ */
+export const serializer: jest.SnapshotSerializerPlugin = {
+    test: (value: unknown) => is_variant(value),
+    serialize: (value: Variant, config, indentation, depth, refs, printer) => {
+        if (value instanceof OptionNone) {
+            return 'None';
+        }
+
+        return `${name_of(value)}(${printer(value.value, config, indentation, depth, refs)})`;
+    },
+};
+
+// Importing this module (e.g. from `setupFilesAfterEnv`) registers the matchers and the serializer.
+if (typeof expect !== 'undefined') {
+    expect.extend(matchers);
+    expect.addSnapshotSerializer(serializer);
+}
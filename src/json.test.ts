@@ -0,0 +1,100 @@
+import {
+    bigint_encoder,
+    create_codec,
+    date_encoder,
+    error_encoder,
+    json_reviver,
+    ValueEncoder,
+} from './json';
+import { None, Option, OptionNone, OptionSome, Some } from './option';
+import { Err, Ok, Result } from './result';
+
+describe('JSON', () => {
+    describe('toJSON', () => {
+        it('serializes Ok and Err into the wire format', () => {
+            expect(JSON.stringify(Ok(5))).toBe('{"$rsult":"Ok","value":5}');
+            expect(JSON.stringify(Err("failed"))).toBe('{"$rsult":"Err","value":"failed"}');
+        });
+
+        it('serializes Some and None into the wire format', () => {
+            expect(JSON.stringify(Some(5))).toBe('{"$rsult":"Some","value":5}');
+            expect(JSON.stringify(None())).toBe('{"$rsult":"None"}');
+        });
+
+        it('serializes nested values', () => {
+            expect(JSON.stringify({ user: Ok(Some({ id: 1 })) }))
+                .toBe('{"user":{"$rsult":"Ok","value":{"$rsult":"Some","value":{"id":1}}}}');
+        });
+    });
+
+    describe('json_reviver', () => {
+        it('rebuilds Result and Option instances', () => {
+            const ok = JSON.parse(JSON.stringify(Ok(5)), json_reviver);
+            const none = JSON.parse(JSON.stringify(None()), json_reviver);
+            expect(ok).toBeOkWith(5);
+            expect(none).toBeNone();
+        });
+
+        it('rebuilds nested instances', () => {
+            const parsed = JSON.parse(JSON.stringify({ items: [Ok(Some(1)), Err(None())] }), json_reviver);
+            expect(parsed.items[0]).toBeOkWith(Some(1));
+            expect(parsed.items[0].unwrap()).toBeInstanceOf(OptionSome);
+            expect(parsed.items[1]).toBeErrWith(None());
+            expect(parsed.items[1].unwrap_err()).toBeInstanceOf(OptionNone);
+        });
+
+        it('leaves unrelated values untouched', () => {
+            expect(JSON.parse('{"a":[1,{"b":null}]}', json_reviver)).toEqual({ a: [1, { b: null }] });
+        });
+    });
+
+    describe('create_codec', () => {
+        it('round-trips Results and Options without encoders', () => {
+            const codec = create_codec();
+            const value = { a: Ok(Some("x")), b: Err(5), c: None() };
+            expect(codec.parse(codec.stringify(value))).toEqual(value);
+        });
+
+        it('applies the built-in encoders to inner values', () => {
+            const codec = create_codec([date_encoder, bigint_encoder, error_encoder]);
+            const date = new Date(0);
+
+            const text = codec.stringify([Ok(date), Some(10n), Err(new Error("failed"))]);
+            const [ok, some, err] = codec.parse<[Result<Date, never>, Option<bigint>, Result<never, Error>]>(text);
+
+            expect(ok).toBeOkWith(date);
+            expect(some).toBeSome(10n);
+            expect(err).toBeErrWith(expect.any(Error));
+            expect(err.unwrap_err().message).toBe("failed");
+        });
+
+        it('preserves the cause of encoded errors', () => {
+            const codec = create_codec([error_encoder]);
+            const error = new Error("outer", { cause: new Error("inner") });
+            const parsed = codec.parse<Result<never, Error>>(codec.stringify(Err(error)));
+            expect((parsed.unwrap_err().cause as Error).message).toBe("inner");
+        });
+
+        it('supports custom encoders', () => {
+            class Money {
+                constructor(readonly cents: number) { }
+            }
+
+            const money_encoder: ValueEncoder<Money> = {
+                tag: 'Money',
+                test: (value): value is Money => value instanceof Money,
+                encode: value => value.cents,
+                decode: encoded => new Money(encoded),
+            };
+
+            const codec = create_codec([money_encoder]);
+            const text = codec.stringify(Some(new Money(500)));
+            expect(text).toBe('{"$rsult":"Some","value":{"$rsult":"Money","value":500}}');
+            expect(codec.parse<Option<Money>>(text)).toBeSome(new Money(500));
+        });
+
+        it('rejects encoders using a reserved tag', () => {
+            expect(() => create_codec([{ ...date_encoder, tag: 'Ok' }])).toThrow("reserved");
+        });
+    });
+});
@@ -0,0 +1,184 @@
+import { OptionSome, OptionNone } from './option';
+import { ResultOk, ResultErr } from './result';
+
+/**
+ * The property identifying a serialized rsult value.
+ */
+export const RSULT_TAG = '$rsult';
+
+/**
+ * The wire format of a serialized `Result`:
+ * `{"$rsult":"Ok","value":...}` or `{"$rsult":"Err","value":...}`.
+ */
+export type ResultJSON<T, E> =
+    { $rsult: 'Ok'; value: T } | { $rsult: 'Err'; value: E };
+
+/**
+ * The wire format of a serialized `Option`:
+ * `{"$rsult":"Some","value":...}` or `{"$rsult":"None"}`.
+ */
+export type OptionJSON<T> =
+    { $rsult: 'Some'; value: T } | { $rsult: 'None' };
+
+/**
+ * Converts values the JSON format cannot represent (or represents lossily) to and from JSON.
+ * Encoded values are written as `{"$rsult":<tag>,"value":<encoded>}`.
+ */
+export interface ValueEncoder<T> {
+    /**
+     * The tag identifying values produced by this encoder. Must not be `Ok`, `Err`, `Some` or `None`.
+     */
+    tag: string;
+
+    /**
+     * Determines whether this encoder is responsible for the given value.
+     */
+    test(value: unknown): value is T;
+
+    /**
+     * Converts the value into something `JSON.stringify` can represent.
+     */
+    encode(value: T): unknown;
+
+    /**
+     * Restores the value from its encoded form.
+     */
+    decode(encoded: any): T;
+}
+
+export interface Codec {
+    /**
+     * A `JSON.stringify` replacer applying the codec's encoders.
+     */
+    replacer(this: any, key: string, value: unknown): unknown;
+
+    /**
+     * A `JSON.parse` reviver rebuilding `Option` and `Result` instances and applying the codec's decoders.
+     */
+    reviver(key: string, value: unknown): unknown;
+
+    /**
+     * Serializes a value, including nested `Option` and `Result` instances.
+     */
+    stringify(value: unknown, space?: string | number): string;
+
+    /**
+     * Parses a value serialized by `stringify`, rebuilding nested `Option` and `Result` instances.
+     */
+    parse<T = unknown>(text: string): T;
+}
+
+const VARIANTS = ['Ok', 'Err', 'Some', 'None'];
+
+const is_tagged = (value: unknown): value is { $rsult: string; value?: unknown } =>
+    typeof value === 'object' && value !== null && typeof (value as any)[RSULT_TAG] === 'string';
+
+const revive_variant = (tagged: { $rsult: string; value?: unknown }): unknown => {
+    switch (tagged.$rsult) {
+        case 'Ok':
+            return new ResultOk(tagged.value);
+        case 'Err':
+            return new ResultErr(tagged.value);
+        case 'Some':
+            return new OptionSome(tagged.value);
+        case 'None':
+            return new OptionNone();
+        default:
+            return tagged;
+    }
+};
+
+/**
+ * A `JSON.parse` reviver rebuilding `ResultOk`, `ResultErr`, `OptionSome` and `OptionNone`
+ * instances from their wire format, including nested ones.
+ *
+ * Usage Example:
+ * const text = JSON.stringify({ user: Some(Ok(5)) }); // {"user":{"$rsult":"Some","value":{"$rsult":"Ok","value":5}}}
+ * const parsed = JSON.parse(text, json_reviver); // { user: Some(Ok(5)) }
+ */
+export const json_reviver = (_key: string, value: unknown): unknown =>
+    is_tagged(value) ? revive_variant(value) : value;
+
+/**
+ * Creates a codec which serializes `Option` and `Result` values together with custom encoders
+ * for the values they contain, such as `Date`s, `BigInt`s or errors.
+ * @param encoders The encoders to apply, in order of precedence.
+ * @returns A codec with `stringify`/`parse` as well as the underlying replacer and reviver.
+ *
+ * Usage Example:
+ * const codec = create_codec([date_encoder, bigint_encoder]);
+ * const text = codec.stringify(Ok(new Date(0)));
+ * const result = codec.parse<Result<Date, never>>(text); // Ok(Date(0))
+ */
+export const create_codec = (encoders: ValueEncoder<any>[] = []): Codec => {
+    for (const encoder of encoders) {
+        if (VARIANTS.includes(encoder.tag)) {
+            throw new Error(`Encoder tag '${encoder.tag}' is reserved`);
+        }
+    }
+
+    const codec: Codec = {
+        replacer(key, value) {
+            // `toJSON` (e.g. of `Date`) has already been applied to `value`,
+            // so look at the raw value on the holder instead.
+            const raw = this[key];
+            const encoder = encoders.find(encoder => encoder.test(raw));
+
+            return encoder ? { [RSULT_TAG]: encoder.tag, value: encoder.encode(raw) } : value;
+        },
+
+        reviver(_key, value) {
+            if (!is_tagged(value)) {
+                return value;
+            }
+
+            const encoder = encoders.find(encoder => encoder.tag === value.$rsult);
+
+            return encoder ? encoder.decode(value.value) : revive_variant(value);
+        },
+
+        stringify(value, space) {
+            return JSON.stringify(value, codec.replacer, space);
+        },
+
+        parse(text) {
+            return JSON.parse(text, codec.reviver);
+        },
+    };
+
+    return codec;
+};
+
+/**
+ * Encodes `Date`s as ISO 8601 strings.
+ */
+export const date_encoder: ValueEncoder<Date> = {
+    tag: 'Date',
+    test: (value): value is Date => value instanceof Date,
+    encode: value => value.toISOString(),
+    decode: encoded => new Date(encoded),
+};
+
+/**
+ * Encodes `BigInt`s as decimal strings.
+ */
+export const bigint_encoder: ValueEncoder<bigint> = {
+    tag: 'BigInt',
+    test: (value): value is bigint => typeof value === 'bigint',
+    encode: value => value.toString(),
+    decode: encoded => BigInt(encoded),
+};
+
+/**
+ * Encodes `Error`s by their name, message and (encoded) cause. Stack traces are not preserved.
+ */
+export const error_encoder: ValueEncoder<Error> = {
+    tag: 'Error',
+    test: (value): value is Error => value instanceof Error,
+    encode: value => ({ name: value.name, message: value.message, cause: (value as any).cause }),
+    decode: encoded => {
+        const error = new Error(encoded.message, encoded.cause === undefined ? undefined : { cause: encoded.cause });
+        error.name = encoded.name;
+        return error;
+    },
+};
@@ -1,2 +1,18 @@
 export * from './result';
-export * from './option';
\ No newline at end of file
+export * from './option';
+export * from './async_result';
+export * from './async_option';
+export * from './match';
+export * from './json';
+export * from './context';
+export * from './tagged';
+export * from './validation';
+export * from './cmp';
+export * from './option_cell';
+export * from './iter';
+export * from './panic';
+export * from './decorators';
+export * from './callback';
+export * from './interop';
+export * from './retry';
+export * from './cancellation';
\ No newline at end of file
@@ -0,0 +1,61 @@
+import { match } from './match';
+import { None, Option, Some } from './option';
+import { Err, Ok, Result } from './result';
+
+describe('match', () => {
+    it('matches on Result variants', () => {
+        const render = (result: Result<number, string>) => match(result, {
+            Ok: x => `ok ${x}`,
+            Err: e => `err ${e}`,
+        });
+        expect(render(Ok(5))).toBe("ok 5");
+        expect(render(Err("failed"))).toBe("err failed");
+    });
+
+    it('matches on Option variants', () => {
+        const render = (option: Option<number>) => match(option, {
+            Some: x => x * 2,
+            None: () => 0,
+        });
+        expect(render(Some(5))).toBe(10);
+        expect(render(None())).toBe(0);
+    });
+
+    it('matches nested Result<Option<T>, E> patterns', () => {
+        const render = (lookup: Result<Option<string>, Error>) => match(lookup, {
+            Ok: {
+                Some: name => `found ${name}`,
+                None: () => "not found",
+            },
+            Err: e => `failed: ${e.message}`,
+        });
+        expect(render(Ok(Some("Ferris")))).toBe("found Ferris");
+        expect(render(Ok(None()))).toBe("not found");
+        expect(render(Err(new Error("timeout")))).toBe("failed: timeout");
+    });
+
+    it('matches nested Option<Result<T, E>> patterns', () => {
+        const render = (option: Option<Result<number, string>>) => match(option, {
+            Some: {
+                Ok: x => x,
+                Err: e => e.length,
+            },
+            None: () => -1,
+        });
+        expect(render(Some(Ok(5)))).toBe(5);
+        expect(render(Some(Err("abc")))).toBe(3);
+        expect(render(None())).toBe(-1);
+    });
+
+    it('allows a function handler for a nested payload', () => {
+        const result: Result<Option<number>, string> = Ok(Some(5));
+        expect(match(result, {
+            Ok: option => option.unwrap_or(0),
+            Err: () => -1,
+        })).toBe(5);
+    });
+
+    it('throws for values that are neither an Option nor a Result', () => {
+        expect(() => match(5 as any, {} as never)).toThrow(TypeError);
+    });
+});
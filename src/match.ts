@@ -0,0 +1,56 @@
+import { Option, OptionSome, OptionNone } from './option';
+import { Result, ResultOk, ResultErr } from './result';
+
+type Matchable = Option<any> | Result<any, any>;
+
+/**
+ * A handler for the payload of a variant: either a function receiving the payload, or,
+ * if the payload is itself an `Option` or a `Result`, a nested set of arms.
+ */
+export type MatchHandler<V, R> =
+    ((value: V) => R) | ([V] extends [Matchable] ? MatchArms<V, R> : never);
+
+/**
+ * The arms required to exhaustively match on `V`: `Ok` and `Err` for a `Result`,
+ * `Some` and `None` for an `Option`.
+ */
+export type MatchArms<V, R> =
+    [V] extends [Result<infer T, infer E>] ? { Ok: MatchHandler<T, R>; Err: MatchHandler<E, R> } :
+    [V] extends [Option<infer T>] ? { Some: MatchHandler<T, R>; None: () => R } :
+    never;
+
+const apply = (handler: MatchHandler<any, any>, payload: unknown): any =>
+    typeof handler === 'function' ? handler(payload) : match(payload as Matchable, handler as never);
+
+/**
+ * Exhaustively matches on an `Option` or a `Result`, supporting nested patterns: if a variant's
+ * payload is itself an `Option` or a `Result`, its handler may be another set of arms.
+ * @param value The `Option` or `Result` to match on.
+ * @param arms The handlers for every variant; all of them are required.
+ * @returns The value returned by the handler that was called.
+ *
+ * Usage Example:
+ * const lookup: Result<Option<User>, DbError> = find_user(id);
+ * const message = match(lookup, {
+ *   Ok: {
+ *     Some: user => `Found ${user.name}`,
+ *     None: () => "No such user",
+ *   },
+ *   Err: e => `Lookup failed: ${e.message}`,
+ * });
+ */
+export const match = <V extends Matchable, R>(value: V, arms: MatchArms<V, R>): R => {
+    const handlers = arms as any;
+
+    if (value instanceof ResultOk) {
+        return apply(handlers.Ok, value.value);
+    } else if (value instanceof ResultErr) {
+        return apply(handlers.Err, value.value);
+    } else if (value instanceof OptionSome) {
+        return apply(handlers.Some, value.value);
+    } else if (value instanceof OptionNone) {
+        return handlers.None();
+    }
+
+    throw new TypeError('match() expects an Option or a Result');
+};
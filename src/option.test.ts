@@ -4,7 +4,13 @@ import {
     option_from_nullable,
     option_from_promise,
     Option,
+    OptionSome,
 } from './option';
+import { AsyncOption } from './async_option';
+import { Ok, Err, Result } from './result';
+import { Ordering } from './cmp';
+import * as fc from 'fast-check';
+import { option_laws } from './testing';
 
 describe('Option', () => {
     describe('Check Methods', () => {
@@ -43,19 +49,35 @@ describe('Option', () => {
             expect(option.is_none()).toBe(true);
         });
 
+        it('is_none() should narrow the Option to None', () => {
+            const option: Option<number> = None();
+            if (option.is_none()) {
+                expect(option.is_some()).toBe(false);
+            }
+        });
+
+        it('is_none_or() should return true for None', () => {
+            const option = None<number>();
+            expect(option.is_none_or(x => x > 3)).toBe(true);
+        });
+
+        it('is_none_or() should apply the condition to Some', () => {
+            expect(Some(5).is_none_or(x => x > 3)).toBe(true);
+            expect(Some(2).is_none_or(x => x > 3)).toBe(false);
+        });
     });
 
     describe('Transform Methods', () => {
         it('map() should transform Some value correctly', () => {
             const option = Some(5);
             const newOption = option.map(x => x * 2);
-            expect(newOption.unwrap()).toBe(10);
+            expect(newOption).toBeSome(10);
         });
 
         it('map() should not affect None', () => {
             const option = None();
             const newOption = option.map(x => x * 2);
-            expect(() => newOption.unwrap()).toThrow();
+            expect(newOption).toBeNone();
         });
 
         it('map_or() should transform Some value and return transformed value', () => {
@@ -69,9 +91,66 @@ describe('Option', () => {
             const result = option.map_or(0, x => x * 2);
             expect(result).toBe(0);
         });
+
+        it('map_or_else() should transform Some value without computing the default', () => {
+            const defaultFn = jest.fn(() => 0);
+            expect(Some(5).map_or_else(defaultFn, x => x * 2)).toBe(10);
+            expect(defaultFn).not.toHaveBeenCalled();
+        });
+
+        it('map_or_else() should compute the default for None', () => {
+            const option = None<number>();
+            expect(option.map_or_else(() => -1, x => x * 2)).toBe(-1);
+        });
+
+        it('inspect() should call the function with the Some value and return the Option', () => {
+            const fn = jest.fn();
+            const option = Some(5);
+            expect(option.inspect(fn)).toBe(option);
+            expect(fn).toHaveBeenCalledWith(5);
+        });
+
+        it('inspect() should not call the function for None', () => {
+            const fn = jest.fn();
+            None().inspect(fn);
+            expect(fn).not.toHaveBeenCalled();
+        });
+
+        it('cloned() should deep copy the Some value', () => {
+            const option = Some({ tags: ["a"] });
+            const copy = option.cloned();
+            copy.unwrap().tags.push("b");
+            expect(option.unwrap().tags).toEqual(["a"]);
+            expect(copy.unwrap().tags).toEqual(["a", "b"]);
+        });
+
+        it('cloned() should return None unchanged', () => {
+            const option = None();
+            expect(option.cloned()).toBe(option);
+        });
+
+        it('ok_or() should convert Some to Ok and None to Err', () => {
+            expect(Some(5).ok_or("missing")).toBeOkWith(5);
+            expect(None<number>().ok_or("missing")).toBeErrWith("missing");
+        });
+
+        it('ok_or_else() should only compute the error for None', () => {
+            const errFn = jest.fn(() => "missing");
+            expect(Some(5).ok_or_else(errFn)).toBeOkWith(5);
+            expect(errFn).not.toHaveBeenCalled();
+            expect(None<number>().ok_or_else(errFn)).toBeErrWith("missing");
+        });
     });
 
     describe('Expect and Unwrap Methods', () => {
+        it('expect_none() should throw for Some', () => {
+            expect(() => Some(5).expect_none("Expected no value!")).toThrow("Expected no value!");
+        });
+
+        it('expect_none() should not throw for None', () => {
+            expect(() => None().expect_none("Expected no value!")).not.toThrow();
+        });
+
         it('expect() should return the value for Some', () => {
             const option = Some(5);
             expect(option.expect("Expected a value!")).toBe(5);
@@ -130,140 +209,180 @@ describe('Option', () => {
             const opt1 = Some(5);
             const opt2 = Some(10);
             const result = opt1.and(opt2);
-            expect(result.unwrap()).toBe(10);
+            expect(result).toBeSome(10);
         });
 
         it('and() should return None if the first Option is None', () => {
             const opt1 = None();
             const opt2 = Some(10);
             const result = opt1.and(opt2);
-            expect(() => result.unwrap()).toThrow();
+            expect(result).toBeNone();
         });
 
         it('and_then() should apply function and return Some if the first Option is Some', () => {
             const opt = Some(5);
             const result = opt.and_then(x => Some(x * 2));
-            expect(result.unwrap()).toBe(10);
+            expect(result).toBeSome(10);
         });
 
         it('and_then() should return None if the first Option is None', () => {
             const opt = None();
             const result = opt.and_then(x => Some(x * 2));
-            expect(() => result.unwrap()).toThrow();
+            expect(result).toBeNone();
         });
 
         it('or() should return the first Option if it is Some', () => {
             const opt1 = Some(5);
             const opt2 = Some(10);
             const result = opt1.or(opt2);
-            expect(result.unwrap()).toBe(5);
+            expect(result).toBeSome(5);
         });
 
         it('or() should return the second Option if the first Option is None', () => {
             const opt1 = None();
             const opt2 = Some(10);
             const result = opt1.or(opt2);
-            expect(result.unwrap()).toBe(10);
+            expect(result).toBeSome(10);
         });
 
         it('or_else() should return the first Option if it is Some', () => {
             const opt1 = Some(5);
             const result = opt1.or_else(() => Some(10));
-            expect(result.unwrap()).toBe(5);
+            expect(result).toBeSome(5);
         });
 
         it('or_else() should return the result of the function if the first Option is None', () => {
             const opt1 = None();
             const result = opt1.or_else(() => Some(10));
-            expect(result.unwrap()).toBe(10);
+            expect(result).toBeSome(10);
+        });
+
+        it('or() should widen the value type to a union', () => {
+            const opt1 = None<number>();
+            const result: Option<number | string> = opt1.or(Some("fallback"));
+            expect(result).toBeSome("fallback");
         });
 
         it('xor() should return None if both Options are Some', () => {
             const opt1 = Some(5);
             const opt2 = Some(10);
             const result = opt1.xor(opt2);
-            expect(() => result.unwrap()).toThrow();
+            expect(result).toBeNone();
         });
 
         it('xor() should return Some if only one of the Options is Some', () => {
             const opt1 = Some(5);
             const opt2 = None<number>();
             const result = opt1.xor(opt2);
-            expect(result.unwrap()).toBe(5);
+            expect(result).toBeSome(5);
 
             const opt3 = None();
             const opt4 = Some(10);
             const result2 = opt3.xor(opt4);
-            expect(result2.unwrap()).toBe(10);
+            expect(result2).toBeSome(10);
         });
 
         it('xor() should return None if both Options are None', () => {
             const opt1 = None();
             const opt2 = None();
             const result = opt1.xor(opt2);
-            expect(() => result.unwrap()).toThrow();
+            expect(result).toBeNone();
         });
     });
 
     describe('Mutate Methods', () => {
-        it('take() should take the value from Some, leaving None', () => {
-            const option = Some(5);
-            const taken = option.take();
-            expect(taken.unwrap()).toBe(5);
+        it('Options should be frozen', () => {
+            expect(Object.isFrozen(Some(5))).toBe(true);
+            expect(Object.isFrozen(None())).toBe(true);
+        });
 
-            // this is not possible in the current TypeScript implementation
-            // as the value is moved out of the Option, but the Option is still
-            // "OptionSome"
-            //expect(option.is_none()).toBe(true);
-            expect(option.is_some()).toBe(true);
-            expect(option.unwrap()).toBe(undefined);
+        it('subclasses can declare fields of their own', () => {
+            class Labelled<T> extends OptionSome<T> {
+                label = "labelled";
+            }
+            const option = new Labelled(5);
+            expect(option.label).toBe("labelled");
+            expect(option.map(x => x * 2)).toBeSome(10);
+        });
+
+        it('take() should return the value of Some and None as the updated Option', () => {
+            const option = Some(5);
+            const [taken, rest] = option.take();
+            expect(taken).toBeSome(5);
+            expect(rest).toBeNone();
+            expect(option).toBeSome(5);
         });
 
         it('take() should do nothing on None, returning None', () => {
             const option = None();
-            const taken = option.take();
-            expect(() => taken.unwrap()).toThrow();
-            expect(option.is_none()).toBe(true);
+            const [taken, rest] = option.take();
+            expect(taken).toBeNone();
+            expect(rest).toBeNone();
         });
 
         it('take_if() should take the value if the condition is met, leaving None', () => {
             const option = Some(5);
-            const taken = option.take_if(x => x > 3);
-            expect(taken.unwrap()).toBe(5);
-            // this is not possible in the current TypeScript implementation
-            // as the value is moved out of the Option, but the Option is still
-            // "OptionSome"
-            //expect(option.is_none()).toBe(true);
-            expect(option.is_some()).toBe(true);
-            expect(option.unwrap()).toBe(undefined);
+            const [taken, rest] = option.take_if(x => x > 3);
+            expect(taken).toBeSome(5);
+            expect(rest).toBeNone();
+            expect(option).toBeSome(5);
         });
 
         it('take_if() should leave the option untouched if condition is not met', () => {
             const option = Some(2);
-            const taken = option.take_if(x => x > 3);
-            expect(() => taken.unwrap()).toThrow();
-            expect(option.is_some()).toBe(true);
+            const [taken, rest] = option.take_if(x => x > 3);
+            expect(taken).toBeNone();
+            expect(rest).toBe(option);
         });
 
         it('take_if() should do nothing on None, returning None', () => {
             const option = None<number>();
-            const taken = option.take_if(x => x > 3);
-            expect(() => taken.unwrap()).toThrow();
-            expect(option.is_none()).toBe(true);
+            const [taken, rest] = option.take_if(x => x > 3);
+            expect(taken).toBeNone();
+            expect(rest).toBeNone();
         });
 
-        it('replace() should replace the value of Some, returning the old value', () => {
+        it('replace() should return the old Option and the updated Option', () => {
             const option = Some(5);
-            const oldValue = option.replace(10);
-            expect(oldValue.unwrap()).toBe(5);
-            expect(option.unwrap()).toBe(10);
+            const [old, updated] = option.replace(10);
+            expect(old).toBeSome(5);
+            expect(updated).toBeSome(10);
+            expect(option).toBeSome(5);
         });
 
-        it('replace() should place a value in None, returning None', () => {
-            const option = None();
-            const oldValue = option.replace(10);
-            expect(() => option.unwrap()).toThrow();
-            expect(oldValue.unwrap()).toBe(10);
+        it('replace() should return None and a Some for None', () => {
+            const option = None<number>();
+            const [old, updated] = option.replace(10);
+            expect(old).toBeNone();
+            expect(updated).toBeSome(10);
+            expect(option).toBeNone();
+        });
+
+        it('insert() should return the new value and the updated Option', () => {
+            const option = Some(5);
+            const [value, updated] = option.insert(10);
+            expect(value).toBe(10);
+            expect(updated).toBeSome(10);
+            expect(option).toBeSome(5);
+        });
+
+        it('get_or_insert() should only insert into None', () => {
+            const some = Some(5);
+            expect(some.get_or_insert(10)).toEqual([5, some]);
+
+            const [value, updated] = None<number>().get_or_insert(10);
+            expect(value).toBe(10);
+            expect(updated).toBeSome(10);
+        });
+
+        it('get_or_insert_with() should only compute the value for None', () => {
+            const fn = jest.fn(() => 10);
+            expect(Some(5).get_or_insert_with(fn)[0]).toBe(5);
+            expect(fn).not.toHaveBeenCalled();
+
+            const [value, updated] = None<number>().get_or_insert_with(fn);
+            expect(value).toBe(10);
+            expect(updated).toBeSome(10);
         });
     });
 
@@ -272,38 +391,50 @@ describe('Option', () => {
             const opt1 = Some(5);
             const opt2 = Some("hello");
             const zipped = opt1.zip(opt2);
-            expect(zipped.unwrap()).toEqual([5, "hello"]);
+            expect(zipped).toBeSome([5, "hello"]);
         });
 
         it('zip() returns None if either Option is None', () => {
             const opt1 = Some(5);
             const opt2 = None<string>();
             const zipped = opt1.zip(opt2);
-            expect(() => zipped.unwrap()).toThrow();
+            expect(zipped).toBeNone();
 
             const opt3 = None<number>();
             const opt4 = Some("hello");
             const zipped2 = opt3.zip(opt4);
-            expect(() => zipped2.unwrap()).toThrow();
+            expect(zipped2).toBeNone();
         });
 
         it('zip_with() combines Some values with a function', () => {
             const opt1 = Some(5);
             const opt2 = Some(10);
             const added = opt1.zip_with(opt2, (a, b) => a + b);
-            expect(added.unwrap()).toBe(15);
+            expect(added).toBeSome(15);
         });
 
         it('zip_with() returns None if either Option is None', () => {
             const opt1 = Some(5);
             const opt2 = None<number>();
             const shouldBeNone = opt1.zip_with(opt2, (a, b) => a + b);
-            expect(() => shouldBeNone.unwrap()).toThrow();
+            expect(shouldBeNone).toBeNone();
 
             const opt3 = None<number>();
             const opt4 = Some(10);
             const shouldBeNone2 = opt3.zip_with(opt4, (a, b) => a + b);
-            expect(() => shouldBeNone2.unwrap()).toThrow();
+            expect(shouldBeNone2).toBeNone();
+        });
+
+        it('unzip() splits Some of a pair into a pair of Somes', () => {
+            const [a, b] = Some([5, "hello"] as [number, string]).unzip();
+            expect(a).toBeSome(5);
+            expect(b).toBeSome("hello");
+        });
+
+        it('unzip() splits None into a pair of Nones', () => {
+            const [a, b] = None<[number, string]>().unzip();
+            expect(a).toBeNone();
+            expect(b).toBeNone();
         });
     });
 
@@ -311,19 +442,19 @@ describe('Option', () => {
         it('filter() should return the same Option if the predicate is true for Some', () => {
             const option = Some(5);
             const filteredOption = option.filter(x => x > 3);
-            expect(filteredOption.unwrap()).toBe(5);
+            expect(filteredOption).toBeSome(5);
         });
 
         it('filter() should return None if the predicate is false for Some', () => {
             const option = Some(2);
             const filteredOption = option.filter(x => x > 3);
-            expect(() => filteredOption.unwrap()).toThrow();
+            expect(filteredOption).toBeNone();
         });
 
         it('filter() should return None if called on None', () => {
             const option = None<number>();
             const filteredOption = option.filter(x => x > 3);
-            expect(() => filteredOption.unwrap()).toThrow();
+            expect(filteredOption).toBeNone();
         });
     });
 
@@ -331,19 +462,246 @@ describe('Option', () => {
         it('flatten() should return the inner option if the outer option is Some and contains another Some', () => {
             const option = Some(Some(5));
             const flattened = option.flatten();
-            expect(flattened.unwrap()).toBe(5);
+            expect(flattened).toBeSome(5);
         });
 
         it('flatten() should return None if the outer option is Some but contains None', () => {
             const option = Some(None<number>());
             const flattened = option.flatten();
-            expect(() => flattened.unwrap()).toThrow();
+            expect(flattened).toBeNone();
         });
 
         it('flatten() should return None if the outer option is None', () => {
             const option = None<Option<number>>();
             const flattened = option.flatten();
-            expect(() => flattened.unwrap()).toThrow();
+            expect(flattened).toBeNone();
+        });
+    });
+
+    describe('Transpose Method', () => {
+        it('transpose() should turn Some(Ok) into Ok(Some)', () => {
+            const transposed = Some(Ok(5)).transpose();
+            expect(transposed).toBeOkWith(Some(5));
+        });
+
+        it('transpose() should turn Some(Err) into Err', () => {
+            const transposed = Some(Err("Error")).transpose();
+            expect(transposed).toBeErrWith("Error");
+        });
+
+        it('transpose() should turn None into Ok(None)', () => {
+            const transposed = None<Result<number, string>>().transpose();
+            expect(transposed).toBeOkWith(None());
+        });
+    });
+
+    describe('Iteration', () => {
+        it('iter() should yield the value of Some', () => {
+            expect([...Some(5).iter()]).toEqual([5]);
+        });
+
+        it('iter() should yield nothing for None', () => {
+            expect([...None().iter()]).toEqual([]);
+        });
+
+        it('iter() should work with for...of', () => {
+            const values: number[] = [];
+            for (const value of Some(5).iter()) {
+                values.push(value);
+            }
+            expect(values).toEqual([5]);
+        });
+    });
+
+    describe('Compare Methods', () => {
+        it('eq() should compare Options by variant and deep value equality', () => {
+            expect(Some({ id: 1 }).eq(Some({ id: 1 }))).toBe(true);
+            expect(Some(5).eq(Some(6))).toBe(false);
+            expect(Some(5).eq(None())).toBe(false);
+            expect(None<number>().eq(None())).toBe(true);
+        });
+
+        it('eq() should accept a custom value comparison', () => {
+            const caseInsensitive = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+            expect(Some("A").eq(Some("a"), caseInsensitive)).toBe(true);
+        });
+
+        it('cmp() should order None before Some', () => {
+            expect(None<number>().cmp(Some(1))).toBe(Ordering.Less);
+            expect(Some(1).cmp(None())).toBe(Ordering.Greater);
+            expect(None<number>().cmp(None())).toBe(Ordering.Equal);
+            expect(Some(2).cmp(Some(1))).toBe(Ordering.Greater);
+        });
+
+        it('cmp() should throw for incomparable values without a comparison function', () => {
+            expect(() => Some({ id: 1 }).cmp(Some({ id: 2 }))).toThrow(TypeError);
+            expect(Some({ id: 1 }).cmp(Some({ id: 2 }), (a, b) => a.id - b.id)).toBe(Ordering.Less);
+        });
+
+        it('partial_cmp() should return None for incomparable values', () => {
+            expect(Some(NaN).partial_cmp(Some(1))).toBeNone();
+            expect(None<number>().partial_cmp(Some(NaN))).toBeSome(Ordering.Less);
+        });
+    });
+
+    describe('Match Method', () => {
+        it('match() should call the Some handler for Some', () => {
+            const option = Some(5);
+            expect(option.match({ Some: x => x * 2, None: () => 0 })).toBe(10);
+        });
+
+        it('match() should call the None handler for None', () => {
+            const option = None<number>();
+            expect(option.match({ Some: x => x * 2, None: () => "nothing" })).toBe("nothing");
+        });
+
+        it('AsyncOption.match() should await async handlers', async () => {
+            const option = AsyncOption.from_option(Some(5));
+            expect(await option.match({ Some: async x => x * 2, None: () => 0 })).toBe(10);
+        });
+    });
+
+    describe('Symbol.iterator', () => {
+        it('spreads the contained value of a Some', () => {
+            expect([...Some(5)]).toEqual([5]);
+        });
+
+        it('spreads nothing for None', () => {
+            expect([...None()]).toEqual([]);
+        });
+
+        it('loops over the contained value', () => {
+            const seen: number[] = [];
+            for (const value of Some(5)) {
+                seen.push(value);
+            }
+            for (const value of None<number>()) {
+                seen.push(value);
+            }
+            expect(seen).toEqual([5]);
+        });
+    });
+
+    describe('Option.gen', () => {
+        const lookup = (key: string): Option<number> =>
+            key === "missing" ? None<number>() : Some(key.length);
+
+        it('returns Some with the generator return value', () => {
+            const option = Option.gen(function* ($) {
+                const a = yield* $(lookup("ab"));
+                const b = yield* $(lookup("abc"));
+                return a + b;
+            });
+            expect(option).toBeSome(5);
+        });
+
+        it('short-circuits on the first None', () => {
+            const after = jest.fn();
+            const option = Option.gen(function* ($) {
+                const a = yield* $(lookup("missing"));
+                after();
+                return a;
+            });
+            expect(option).toBeNone();
+            expect(after).not.toHaveBeenCalled();
+        });
+
+        it('unwraps a Some containing None without short-circuiting', () => {
+            const option = Option.gen(function* ($) {
+                const inner = yield* $(Some(None<number>()));
+                return inner.is_none();
+            });
+            expect(option).toBeSome(true);
+        });
+
+        it('gen_async unwraps Options and AsyncOptions', async () => {
+            const fetch = (value: number) => AsyncOption.from_promise(
+                value > 2 ? Promise.resolve(value * 10) : Promise.reject(new Error("Not found")),
+            );
+
+            const some = await Option.gen_async(async function* ($) {
+                const a = yield* $(lookup("abc"));
+                return yield* $(fetch(a));
+            });
+            expect(some).toBeSome(30);
+
+            const none = await Option.gen_async(async function* ($) {
+                const a = yield* $(lookup("ab"));
+                return yield* $(fetch(a));
+            });
+            expect(none).toBeNone();
+        });
+    });
+
+    describe('Collection Methods', () => {
+        it('all() collects a heterogeneous tuple of Some values', () => {
+            const option: Option<[number, string, boolean]> = Option.all([Some(1), Some("two"), Some(true)]);
+            expect(option).toBeSome([1, "two", true]);
+        });
+
+        it('all() collects a record of Some values', () => {
+            const option: Option<{ a: number, b: string }> = Option.all({ a: Some(1), b: Some("two") });
+            expect(option).toBeSome({ a: 1, b: "two" });
+        });
+
+        it('all() returns None if any Option is None', () => {
+            expect(Option.all([Some(1), None<string>()])).toBeNone();
+            expect(Option.all({ a: None<number>() })).toBeNone();
+        });
+
+        it('all() collects any other iterable into an array', () => {
+            const set: Option<number[]> = Option.all(new Set([Some(1), Some(2)]));
+            expect(set).toBeSome([1, 2]);
+
+            const generated = function* () {
+                yield Some(1);
+                yield None<number>();
+            };
+            expect(Option.all(generated())).toBeNone();
+
+            const widened: Iterable<Option<number>> | { [key: string]: Option<number> } = new Set([Some(3)]);
+            expect(Option.all(widened)).toBeSome([3]);
+        });
+
+        it('collect() collects any iterable of Some values', () => {
+            const option = Option.collect(new Set([Some(1), Some(2)]));
+            expect(option).toBeSome([1, 2]);
+        });
+
+        it('collect() returns None if any Option is None', () => {
+            expect(Option.collect([Some(1), None<number>()])).toBeNone();
+        });
+
+        it('filter_map() keeps the values for which the function returns Some', () => {
+            const parse = (input: string) => isNaN(Number(input)) ? None<number>() : Some(Number(input));
+            expect(Option.filter_map(["1", "x", "3"], parse)).toEqual([1, 3]);
+        });
+
+        it('filter_map() accepts generators', () => {
+            const numbers = function* () {
+                yield 1;
+                yield 2;
+                yield 3;
+            };
+            expect(Option.filter_map(numbers(), (n, index) => n % 2 ? Some(`${index}:${n}`) : None<string>())).toEqual(["0:1", "2:3"]);
+        });
+
+        it('first_some() returns the first Some', () => {
+            expect(Option.first_some(None<number>(), Some(2), Some(3))).toBeSome(2);
+        });
+
+        it('first_some() only calls fallbacks until a Some is found', () => {
+            const fallback = jest.fn(() => Some(3));
+            expect(Option.first_some(None<number>(), () => Some(2), fallback)).toBeSome(2);
+            expect(fallback).not.toHaveBeenCalled();
+        });
+
+        it('first_some() returns None if every fallback is None', () => {
+            expect(Option.first_some(None<number>(), () => None<number>())).toBeNone();
+        });
+
+        it('values() keeps only the contained values', () => {
+            expect(Option.values(new Set([Some("a"), None<string>(), Some("b")]))).toEqual(["a", "b"]);
         });
     });
 
@@ -351,49 +709,49 @@ describe('Option', () => {
         describe('Core', () => {
             it('Some() should create a Some Option', () => {
                 const option = Some(5);
-                expect(option.unwrap()).toBe(5);
+                expect(option).toBeSome(5);
             });
 
             it('None() should create a None Option', () => {
                 const option = None();
-                expect(() => option.unwrap()).toThrow();
+                expect(option).toBeNone();
             });
         });
 
         describe('option_from_nullable', () => {
             it('should return Some for non-null values', () => {
                 const option = option_from_nullable(5);
-                expect(option.unwrap()).toBe(5);
+                expect(option).toBeSome(5);
             });
 
             it('should return None for null', () => {
                 const option = option_from_nullable(null);
-                expect(option.is_none()).toBe(true);
+                expect(option).toBeNone();
             });
 
             it('should return None for undefined', () => {
                 const option = option_from_nullable(undefined);
-                expect(option.is_none()).toBe(true);
+                expect(option).toBeNone();
             });
 
             it('should return Some for non-null string values', () => {
                 const option = option_from_nullable("test");
-                expect(option.unwrap()).toBe("test");
+                expect(option).toBeSome("test");
             });
 
             it('should return Some for empty string', () => {
                 const option = option_from_nullable("");
-                expect(option.unwrap()).toBe("");
+                expect(option).toBeSome("");
             });
 
             it('should return Some for boolean true', () => {
                 const option = option_from_nullable(true);
-                expect(option.unwrap()).toBe(true);
+                expect(option).toBeSome(true);
             });
 
             it('should return Some for boolean false', () => {
                 const option = option_from_nullable(false);
-                expect(option.unwrap()).toBe(false);
+                expect(option).toBeSome(false);
             });
         });
 
@@ -401,32 +759,38 @@ describe('Option', () => {
             it('should return Some on promise resolution', async () => {
                 const promise = Promise.resolve(5);
                 const option = await option_from_promise(promise);
-                expect(option.unwrap()).toBe(5);
+                expect(option).toBeSome(5);
             });
 
             it('should return None on promise rejection', async () => {
                 const promise = Promise.reject('Error');
                 const option = await option_from_promise(promise);
-                expect(option.is_none()).toBe(true);
+                expect(option).toBeNone();
             });
 
             it('should return Some on promise resolution with string', async () => {
                 const promise = Promise.resolve("test");
                 const option = await option_from_promise(promise);
-                expect(option.unwrap()).toBe("test");
+                expect(option).toBeSome("test");
             });
 
             it('should return Some on promise resolution with boolean', async () => {
                 const promise = Promise.resolve(true);
                 const option = await option_from_promise(promise);
-                expect(option.unwrap()).toBe(true);
+                expect(option).toBeSome(true);
             });
 
             it('should return None on promise rejection with custom error', async () => {
                 const promise = Promise.reject(new Error("Custom error"));
                 const option = await option_from_promise(promise);
-                expect(option.is_none()).toBe(true);
+                expect(option).toBeNone();
             });
         });
     });
+
+    describe('Laws', () => {
+        for (const law of option_laws(fc.integer())) {
+            it(law.name, () => fc.assert(law.property));
+        }
+    });
 });
\ No newline at end of file
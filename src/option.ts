@@ -1,6 +1,19 @@
+import { AsyncOption } from './async_option';
+import { Ordering, compare, deep_equal, partial_compare } from './cmp';
+import { DenoInspect, NodeInspect, NodeInspectOptions, format_debug, inspect_deno, inspect_node } from './format';
+import { Iter } from './iter';
+import { OptionJSON } from './json';
+import { ExpectError, UnwrapError, panic } from './panic';
+import { Result, ResultOk, ResultErr } from './result';
+
 export type Option<T> =
     OptionSome<T> | OptionNone<T>;
 
+declare const structuredClone: <V>(value: V) => V;
+
+type Unzipped<T> = T extends readonly [infer A, infer B] ? [Option<A>, Option<B>] : never;
+type TransposedOption<T> = [T] extends [Result<infer U, infer E>] ? Result<Option<U>, E> : never;
+
 export interface IOptionCheck<T> {
     /**
      * Determines if the Option is Some.
@@ -35,7 +48,18 @@ export interface IOptionCheck<T> {
      *  console.log("It's None!");
      * }
      */
-    is_none(): boolean;
+    is_none(): this is OptionNone<T>;
+
+    /**
+     * Determines if the Option is None or the contained value meets a condition.
+     * @param f The condition to apply to the contained value if it's Some.
+     * @returns true if the Option is None or the condition returns true, otherwise false.
+     *
+     * Usage Example:
+     * const myOption = None<number>();
+     * const isNoneOrPositive = myOption.is_none_or(x => x > 0); // true
+     */
+    is_none_or(f: (arg: T) => boolean): boolean;
 }
 
 export interface IOptionExpect<T> {
@@ -50,6 +74,17 @@ export interface IOptionExpect<T> {
      * const value = myOption.expect("Expected a value!"); // 5
      */
     expect(msg: string): T | never;
+
+    /**
+     * Asserts that the Option is None, throwing an error if it is Some.
+     * @param msg The error message to throw if the Option is Some.
+     * @throws Error with provided message if the Option is Some.
+     *
+     * Usage Example:
+     * const myOption = None();
+     * myOption.expect_none("Expected no value!");
+     */
+    expect_none(msg: string): void;
 }
 
 export interface IOptionTransform<T> {
@@ -75,6 +110,63 @@ export interface IOptionTransform<T> {
      * const value = myOption.map_or(0, x => x * 2); // 0
      */
     map_or<U>(defaultVal: U, fn: (arg: T) => U): U;
+
+    /**
+     * Applies a function to the contained value if Some, otherwise computes a default from a function.
+     * @param defaultFn The function computing the default value if the Option is None.
+     * @param fn The function to apply to the contained value if Some.
+     * @returns The result of applying fn to the contained value if this Option is Some, else the result of defaultFn.
+     *
+     * Usage Example:
+     * const myOption = None<number>();
+     * const value = myOption.map_or_else(() => 0, x => x * 2); // 0
+     */
+    map_or_else<U>(defaultFn: () => U, fn: (arg: T) => U): U;
+
+    /**
+     * Calls a function with the contained value if Some, then returns the unmodified Option.
+     * @param f The function to call with the contained value.
+     * @returns The original Option.
+     *
+     * Usage Example:
+     * const myOption = Some(5);
+     * myOption.inspect(x => console.log(`Value: ${x}`)).map(x => x * 2);
+     */
+    inspect(f: (arg: T) => void): Option<T>;
+
+    /**
+     * Returns a new Option with a deep copy of the contained value, made with `structuredClone`.
+     * @returns A new Option whose value shares no references with the original.
+     * @throws Throws if the contained value cannot be cloned, e.g. because it contains functions.
+     *
+     * Usage Example:
+     * const myOption = Some({ tags: ["a"] });
+     * const copy = myOption.cloned();
+     * copy.unwrap().tags.push("b"); // myOption still contains ["a"]
+     */
+    cloned(): Option<T>;
+
+    /**
+     * Transforms the Option into a Result, mapping Some to Ok and None to Err with the provided error.
+     * @param err The error to use if the Option is None.
+     * @returns Ok with the contained value if Some, otherwise Err with err.
+     *
+     * Usage Example:
+     * const myOption = None<number>();
+     * const result = myOption.ok_or("missing"); // Err("missing")
+     */
+    ok_or<E>(err: E): Result<T, E>;
+
+    /**
+     * Transforms the Option into a Result, mapping Some to Ok and None to Err with a computed error.
+     * @param fn The function computing the error if the Option is None.
+     * @returns Ok with the contained value if Some, otherwise Err with the result of fn.
+     *
+     * Usage Example:
+     * const myOption = None<number>();
+     * const result = myOption.ok_or_else(() => new Error("missing")); // Err(Error("missing"))
+     */
+    ok_or_else<E>(fn: () => E): Result<T, E>;
 }
 
 export interface IOptionCombine<T> {
@@ -111,7 +203,7 @@ export interface IOptionCombine<T> {
      * const opt2 = Some(10);
      * const result = opt1.or(opt2); // Some(10)
      */
-    or<U>(opt: Option<U>): Option<T> | Option<U>;
+    or<U = T>(opt: Option<U>): Option<T | U>;
 
     /**
      * Returns the result of applying a function if this Option is None, else returns this Option.
@@ -122,7 +214,7 @@ export interface IOptionCombine<T> {
      * const opt1 = None();
      * const result = opt1.or_else(() => Some(10)); // Some(10)
      */
-    or_else<U>(fn: () => Option<U>): Option<T> | Option<U>;
+    or_else<U = T>(fn: () => Option<U>): Option<T | U>;
 
     /**
      * Returns None if both this and the passed Option are Some. Otherwise returns the Option that is Some.
@@ -182,39 +274,76 @@ export interface IOptionUtility<T> {
     unwrap_or_default(): T | null;
 }
 
+/**
+ * Options are immutable: instead of changing the receiver, these methods return their result together
+ * with the updated Option. Use `OptionCell` for a mutable slot holding an Option.
+ */
 export interface IOptionMutate<T> {
     /**
      * Takes the contained value out of the Option, leaving a None in its place.
-     * @returns The Option containing the original value before it was taken.
+     * @returns A tuple of the Option containing the original value and the updated Option, which is None.
      *
      * Usage Example:
      * const myOption = Some(5);
-     * const takenValue = myOption.take(); // Some(5), myOption is now None
+     * const [taken, rest] = myOption.take(); // Some(5), None; myOption is still Some(5)
      */
-    take(): Option<T>;
+    take(): [taken: Option<T>, option: Option<T>];
 
     /**
      * Takes the contained value out of the Option if it satisfies a predicate, leaving a None in its place.
      * @param predicate The predicate to apply to the contained value.
-     * @returns The Option containing the original value if the predicate returns true, otherwise None.
+     * @returns A tuple of the Option containing the original value if the predicate returns true, otherwise None,
+     * and the updated Option.
      *
      * Usage Example:
      * const myOption = Some(5);
-     * const takenValue = myOption.take_if(x => x > 3); // Some(5), myOption is now None
+     * const [taken, rest] = myOption.take_if(x => x > 3); // Some(5), None
      */
-    take_if(predicate: (arg: T) => boolean): Option<T>;
+    take_if(predicate: (arg: T) => boolean): [taken: Option<T>, option: Option<T>];
 
     /**
-     * Replaces the contained value with another, returning the old value wrapped in an Option.
+     * Replaces the contained value with another.
      * @param value The new value to put in the Option.
-     * @returns An Option containing the old value.
-     * 
+     * @returns A tuple of an Option containing the old value and the updated Option.
+     *
      * Usage Example:
      * const myOption = Some(5);
-     * const oldValue = myOption.replace(10); // Some(5), myOption now contains 10
-     * 
-    */
-    replace(value: T): Option<T>;
+     * const [old, updated] = myOption.replace(10); // Some(5), Some(10)
+     */
+    replace(value: T): [old: Option<T>, option: Option<T>];
+
+    /**
+     * Inserts a value into the Option, replacing any contained value.
+     * @param value The value to insert.
+     * @returns A tuple of the inserted value and the updated Option.
+     *
+     * Usage Example:
+     * const myOption = None<number>();
+     * const [value, updated] = myOption.insert(10); // 10, Some(10)
+     */
+    insert(value: T): [value: T, option: Option<T>];
+
+    /**
+     * Returns the contained value, inserting the provided value first if the Option is None.
+     * @param value The value to insert if the Option is None.
+     * @returns A tuple of the contained or inserted value and the updated Option.
+     *
+     * Usage Example:
+     * const myOption = None<number>();
+     * const [value, updated] = myOption.get_or_insert(10); // 10, Some(10)
+     */
+    get_or_insert(value: T): [value: T, option: Option<T>];
+
+    /**
+     * Returns the contained value, inserting a computed value first if the Option is None.
+     * @param fn The function computing the value to insert if the Option is None.
+     * @returns A tuple of the contained or inserted value and the updated Option.
+     *
+     * Usage Example:
+     * const myOption = None<number[]>();
+     * const [value, updated] = myOption.get_or_insert_with(() => []); // [], Some([])
+     */
+    get_or_insert_with(fn: () => T): [value: T, option: Option<T>];
 }
 
 export interface IOptionZip<T> {
@@ -242,6 +371,16 @@ export interface IOptionZip<T> {
      * const added = opt1.zip_with(opt2, (a, b) => a + b); // Some(15)
      */
     zip_with<U, R>(other: Option<U>, f: (val: T, other: U) => R): Option<R>;
+
+    /**
+     * Splits an Option of a pair into a pair of Options.
+     * @returns A tuple of two Somes if the Option is Some, otherwise a tuple of two Nones.
+     *
+     * Usage Example:
+     * const opt = Some([5, "hello"] as [number, string]);
+     * const [a, b] = opt.unzip(); // [Some(5), Some("hello")]
+     */
+    unzip(): Unzipped<T>;
 }
 export interface IOptionFilter<T> {
     /**
@@ -266,6 +405,120 @@ export interface IOptionFlatten<T> {
      * const flattened = opt.flatten(); // Some(5)
      */
     flatten<T extends Option<T>>(): Option<T>;
+
+    /**
+     * Transposes an `Option` of a `Result` into a `Result` of an `Option`.
+     * `None` becomes `Ok(None)`, `Some(Ok(x))` becomes `Ok(Some(x))` and `Some(Err(e))` becomes `Err(e)`.
+     * @returns The transposed `Result`.
+     *
+     * Usage Example:
+     * const port: Option<Result<number, ParseError>> = env("PORT").map(parse_port);
+     * const transposed = port.transpose(); // Result<Option<number>, ParseError>
+     */
+    transpose(): TransposedOption<T>;
+}
+
+export interface IOptionIteration<T> {
+    /**
+     * Returns a lazy `Iter` over the potentially contained value.
+     * @returns An Iter which yields the contained value if the Option is Some.
+     *
+     * Usage Example:
+     * const values = [...Some(5).iter()]; // [5]
+     * const none = [...None().iter()]; // []
+     * const evens = Some(4).iter().chain([6, 7]).filter(x => x % 2 === 0).collect(); // [4, 6]
+     */
+    iter(): Iter<T>;
+
+    /**
+     * Makes the Option iterable, like Rust's `IntoIterator`: spreading or looping over a Some yields the
+     * contained value, while None yields nothing.
+     *
+     * Usage Example:
+     * const values = [...Some(5)]; // [5]
+     * const none = [...None()]; // []
+     * for (const user of find_user(id)) { greet(user); }
+     */
+    [Symbol.iterator](): Iterator<T>;
+}
+
+export interface IOptionMatch<T> {
+    /**
+     * Exhaustively matches on the Option, calling `Some` with the contained value or `None` otherwise.
+     * @param arms The handlers for both variants; both are required.
+     * @returns The value returned by the handler that was called.
+     *
+     * Usage Example:
+     * const myOption = Some(5);
+     * const message = myOption.match({
+     *   Some: x => `Value: ${x}`,
+     *   None: () => "Nothing",
+     * }); // "Value: 5"
+     */
+    match<A, B>(arms: { Some: (value: T) => A; None: () => B }): A | B;
+}
+
+export interface IOptionCompare<T> {
+    /**
+     * Checks if two Options are equal: both None, or both Some with equal values.
+     * @param other The Option to compare with.
+     * @param valueEq The function comparing the contained values; defaults to deep equality.
+     * @returns true if both Options are equal, otherwise false.
+     *
+     * Usage Example:
+     * Some({ id: 1 }).eq(Some({ id: 1 })); // true
+     * Some(5).eq(None()); // false
+     */
+    eq(other: Option<T>, valueEq?: (a: T, b: T) => boolean): boolean;
+
+    /**
+     * Compares two Options, ordering None before any Some and Somes by their values.
+     * @param other The Option to compare with.
+     * @param cmpFn The function comparing the contained values; defaults to `compare`.
+     * @returns The ordering of this Option relative to `other`.
+     * @throws TypeError if the contained values are not comparable and no `cmpFn` is given.
+     *
+     * Usage Example:
+     * None().cmp(Some(1)); // Ordering.Less
+     * Some(2).cmp(Some(1)); // Ordering.Greater
+     */
+    cmp(other: Option<T>, cmpFn?: (a: T, b: T) => Ordering): Ordering;
+
+    /**
+     * Compares two Options like `cmp`, returning None if the contained values are not comparable.
+     * @param other The Option to compare with.
+     * @param cmpFn The function comparing the contained values; defaults to `partial_compare`.
+     * @returns Some with the ordering of this Option relative to `other`, or None.
+     *
+     * Usage Example:
+     * Some(NaN).partial_cmp(Some(1)); // None
+     * None().partial_cmp(Some(NaN)); // Some(Ordering.Less)
+     */
+    partial_cmp(other: Option<T>, cmpFn?: (a: T, b: T) => Option<Ordering>): Option<Ordering>;
+}
+
+export interface IOptionSerialize<T> {
+    /**
+     * Converts the Option into its wire format, which is used by `JSON.stringify`.
+     * Use `json_reviver` or a codec to turn it back into an Option.
+     * @returns `{ $rsult: 'Some', value }` or `{ $rsult: 'None' }`.
+     *
+     * Usage Example:
+     * JSON.stringify(Some(5)); // '{"$rsult":"Some","value":5}'
+     */
+    toJSON(): OptionJSON<T>;
+
+    /**
+     * Formats the Option like Rust's `Debug` output, with strings quoted and nested Options and Results
+     * formatted the same way. `console.log` and `util.inspect` in Node and Deno use the same format,
+     * with their own depth limit and colors.
+     * @returns `Some(<value>)` or `None`.
+     *
+     * Usage Example:
+     * Some({ id: 1 }).toString(); // 'Some({ id: 1 })'
+     * `${Some("a")}`; // 'Some("a")'
+     */
+    toString(): string;
 }
 
 export interface IOption<T> extends
@@ -277,14 +530,23 @@ export interface IOption<T> extends
     IOptionMutate<T>,
     IOptionZip<T>,
     IOptionFilter<T>,
-    IOptionFlatten<T> { }
+    IOptionFlatten<T>,
+    IOptionIteration<T>,
+    IOptionMatch<T>,
+    IOptionCompare<T>,
+    IOptionSerialize<T> { }
 
 export class OptionSome<T> implements IOption<T> {
     readonly _tag = 'Some' as const;
     // @ts-ignore
     readonly _T: T;
 
-    constructor(readonly value: T) { }
+    constructor(readonly value: T) {
+        // subclasses may declare fields of their own, so they are left to freeze themselves
+        if (new.target === OptionSome) {
+            Object.freeze(this);
+        }
+    }
 
     is_some(): this is OptionSome<T> {
         return true;
@@ -294,14 +556,22 @@ export class OptionSome<T> implements IOption<T> {
         return f(this.value);
     }
 
-    is_none(): this is never {
+    is_none(): this is OptionNone<T> {
         return false;
     }
 
+    is_none_or(f: (arg: T) => boolean): boolean {
+        return f(this.value);
+    }
+
     expect(_msg: string): T {
         return this.value;
     }
 
+    expect_none(msg: string): never {
+        return panic(new ExpectError(msg, this.value));
+    }
+
     map<U>(fn: (arg: T) => U): Option<U> {
         return new OptionSome<U>(fn(this.value));
     }
@@ -310,6 +580,28 @@ export class OptionSome<T> implements IOption<T> {
         return fn(this.value);
     }
 
+    map_or_else<U>(_defaultFn: () => U, fn: (arg: T) => U): U {
+        return fn(this.value);
+    }
+
+    inspect(f: (arg: T) => void): Option<T> {
+        f(this.value);
+
+        return this;
+    }
+
+    cloned(): Option<T> {
+        return new OptionSome<T>(structuredClone(this.value));
+    }
+
+    ok_or<E>(_err: E): Result<T, E> {
+        return new ResultOk<T, E>(this.value);
+    }
+
+    ok_or_else<E>(_fn: () => E): Result<T, E> {
+        return new ResultOk<T, E>(this.value);
+    }
+
     and<U>(opt: Option<U>): Option<U> {
         return opt;
     }
@@ -326,12 +618,12 @@ export class OptionSome<T> implements IOption<T> {
         return None<T>();
     }
 
-    or<U>(_opt: Option<U>): Option<T> {
-        return this as any;
+    or<U = T>(_opt: Option<U>): Option<T | U> {
+        return this;
     }
 
-    or_else<U>(_fn: () => Option<U>): Option<T> {
-        return this as any;
+    or_else<U = T>(_fn: () => Option<U>): Option<T | U> {
+        return this;
     }
 
     xor(optb: Option<T>): Option<T> {
@@ -358,26 +650,32 @@ export class OptionSome<T> implements IOption<T> {
         return this.value;
     }
 
-    take(): Option<T> {
-        const value = this.value;
-        // @ts-ignore "administrative override" :-)
-        this.value = undefined as any;
-        return new OptionSome<T>(value);
+    take(): [taken: Option<T>, option: Option<T>] {
+        return [this, None<T>()];
     }
 
-    take_if(predicate: (arg: T) => boolean): Option<T> {
+    take_if(predicate: (arg: T) => boolean): [taken: Option<T>, option: Option<T>] {
         if (predicate(this.value)) {
             return this.take();
         }
 
-        return None<T>();
+        return [None<T>(), this];
+    }
+
+    replace(value: T): [old: Option<T>, option: Option<T>] {
+        return [this, new OptionSome<T>(value)];
+    }
+
+    insert(value: T): [value: T, option: Option<T>] {
+        return [value, new OptionSome<T>(value)];
     }
 
-    replace(value: T): Option<T> {
-        const oldValue = this.value;
-        // @ts-ignore "administrative override" :-)
-        this.value = value;
-        return new OptionSome<T>(oldValue);
+    get_or_insert(_value: T): [value: T, option: Option<T>] {
+        return [this.value, this];
+    }
+
+    get_or_insert_with(_fn: () => T): [value: T, option: Option<T>] {
+        return [this.value, this];
     }
 
     zip<U>(other: Option<U>): Option<[T, U]> {
@@ -396,6 +694,12 @@ export class OptionSome<T> implements IOption<T> {
         return new OptionNone<R>();
     }
 
+    unzip(): Unzipped<T> {
+        const [a, b] = this.value as unknown as [unknown, unknown];
+
+        return [new OptionSome(a), new OptionSome(b)] as Unzipped<T>;
+    }
+
     flatten<T extends Option<T>>(): Option<T> {
         if (this.value instanceof OptionSome) {
             // If the value is an OptionSome, we return it directly.
@@ -406,6 +710,60 @@ export class OptionSome<T> implements IOption<T> {
             return None<T>();
         }
     }
+
+    transpose(): TransposedOption<T> {
+        const result = this.value as unknown as Result<unknown, unknown>;
+
+        if (result.is_err()) {
+            return result as any;
+        }
+
+        return new ResultOk(new OptionSome(result.value)) as any;
+    }
+
+    iter(): Iter<T> {
+        return new Iter([this.value]);
+    }
+
+    match<A, B>(arms: { Some: (value: T) => A; None: () => B }): A | B {
+        return arms.Some(this.value);
+    }
+
+    eq(other: Option<T>, valueEq: (a: T, b: T) => boolean = deep_equal): boolean {
+        return other.is_some() && valueEq(this.value, other.value);
+    }
+
+    cmp(other: Option<T>, cmpFn: (a: T, b: T) => Ordering = compare): Ordering {
+        return other.is_some() ? cmpFn(this.value, other.value) : Ordering.Greater;
+    }
+
+    partial_cmp(other: Option<T>, cmpFn: (a: T, b: T) => Option<Ordering> = partial_compare): Option<Ordering> {
+        return other.is_some() ? cmpFn(this.value, other.value) : new OptionSome(Ordering.Greater);
+    }
+
+    toJSON(): OptionJSON<T> {
+        return { $rsult: 'Some', value: this.value };
+    }
+
+    toString(): string {
+        return format_debug(this);
+    }
+
+    get [Symbol.toStringTag](): string {
+        return 'Option';
+    }
+
+    [Symbol.for('nodejs.util.inspect.custom')](depth: number, options: NodeInspectOptions, inspect?: NodeInspect): string {
+        return inspect_node(this, depth, options, inspect);
+    }
+
+    [Symbol.for('Deno.customInspect')](inspect: DenoInspect, options: unknown): string {
+        return inspect_deno(this, inspect, options);
+    }
+
+    *[Symbol.iterator](): Iterator<T> {
+        yield this.value;
+    }
 }
 
 export class OptionNone<T> implements IOption<T> {
@@ -413,6 +771,13 @@ export class OptionNone<T> implements IOption<T> {
     // @ts-ignore
     private readonly _T: T;
 
+    constructor() {
+        // subclasses may declare fields of their own, so they are left to freeze themselves
+        if (new.target === OptionNone) {
+            Object.freeze(this);
+        }
+    }
+
     is_some(): this is never {
         return false;
     }
@@ -425,8 +790,15 @@ export class OptionNone<T> implements IOption<T> {
         return true;
     }
 
+    is_none_or(_f: (arg: T) => boolean): boolean {
+        return true;
+    }
+
     expect(msg: string): never {
-        throw new Error(msg);
+        return panic(new ExpectError(msg));
+    }
+
+    expect_none(_msg: string): void {
     }
 
     map<U>(_fn: (arg: T) => U): Option<U> {
@@ -437,6 +809,26 @@ export class OptionNone<T> implements IOption<T> {
         return defaultVal;
     }
 
+    map_or_else<U>(defaultFn: () => U, _fn: (arg: T) => U): U {
+        return defaultFn();
+    }
+
+    inspect(_f: (arg: T) => void): Option<T> {
+        return this;
+    }
+
+    cloned(): Option<T> {
+        return this;
+    }
+
+    ok_or<E>(err: E): Result<T, E> {
+        return new ResultErr<T, E>(err);
+    }
+
+    ok_or_else<E>(fn: () => E): Result<T, E> {
+        return new ResultErr<T, E>(fn());
+    }
+
     and<U>(_opt: Option<U>): Option<U> {
         return this as any;
     }
@@ -449,11 +841,11 @@ export class OptionNone<T> implements IOption<T> {
         return this as any;
     }
 
-    or<U>(opt: Option<U>): Option<U> {
+    or<U = T>(opt: Option<U>): Option<T | U> {
         return opt;
     }
 
-    or_else<U>(fn: () => Option<U>): Option<U> {
+    or_else<U = T>(fn: () => Option<U>): Option<T | U> {
         return fn();
     }
 
@@ -462,7 +854,7 @@ export class OptionNone<T> implements IOption<T> {
     }
 
     unwrap(): never {
-        throw new Error('Called Option.unwrap() on a None value');
+        return panic(new UnwrapError('Called Option.unwrap() on a None value'));
     }
 
     unwrap_or(optb: T): T {
@@ -477,16 +869,28 @@ export class OptionNone<T> implements IOption<T> {
         return null as any;
     }
 
-    take(): Option<T> {
-        return this;
+    take(): [taken: Option<T>, option: Option<T>] {
+        return [this, this];
     }
 
-    take_if(_predicate: (arg: T) => boolean): Option<T> {
-        return this;
+    take_if(_predicate: (arg: T) => boolean): [taken: Option<T>, option: Option<T>] {
+        return [this, this];
+    }
+
+    replace(value: T): [old: Option<T>, option: Option<T>] {
+        return [this, new OptionSome<T>(value)];
+    }
+
+    insert(value: T): [value: T, option: Option<T>] {
+        return [value, new OptionSome<T>(value)];
+    }
+
+    get_or_insert(value: T): [value: T, option: Option<T>] {
+        return this.insert(value);
     }
 
-    replace(value: T): Option<T> {
-        return new OptionSome<T>(value);
+    get_or_insert_with(fn: () => T): [value: T, option: Option<T>] {
+        return this.insert(fn());
     }
 
     zip<U>(other: Option<U>): Option<[T, U]> {
@@ -497,9 +901,60 @@ export class OptionNone<T> implements IOption<T> {
         return None<R>();
     }
 
+    unzip(): Unzipped<T> {
+        return [new OptionNone(), new OptionNone()] as Unzipped<T>;
+    }
+
     flatten<T extends Option<T>>(): Option<T> {
         return this as any;
     }
+
+    transpose(): TransposedOption<T> {
+        return new ResultOk(this) as any;
+    }
+
+    iter(): Iter<T> {
+        return new Iter<T>([]);
+    }
+
+    match<A, B>(arms: { Some: (value: T) => A; None: () => B }): A | B {
+        return arms.None();
+    }
+
+    eq(other: Option<T>, _valueEq?: (a: T, b: T) => boolean): boolean {
+        return other.is_none();
+    }
+
+    cmp(other: Option<T>, _cmpFn?: (a: T, b: T) => Ordering): Ordering {
+        return other.is_none() ? Ordering.Equal : Ordering.Less;
+    }
+
+    partial_cmp(other: Option<T>, _cmpFn?: (a: T, b: T) => Option<Ordering>): Option<Ordering> {
+        return new OptionSome(this.cmp(other));
+    }
+
+    toJSON(): OptionJSON<T> {
+        return { $rsult: 'None' };
+    }
+
+    toString(): string {
+        return format_debug(this);
+    }
+
+    get [Symbol.toStringTag](): string {
+        return 'Option';
+    }
+
+    [Symbol.for('nodejs.util.inspect.custom')](depth: number, options: NodeInspectOptions, inspect?: NodeInspect): string {
+        return inspect_node(this, depth, options, inspect);
+    }
+
+    [Symbol.for('Deno.customInspect')](inspect: DenoInspect, options: unknown): string {
+        return inspect_deno(this, inspect, options);
+    }
+
+    *[Symbol.iterator](): Iterator<T> {
+    }
 }
 
 export const Some = <T>(val: T): Option<T> => {
@@ -521,4 +976,205 @@ export const option_from_nullable =
 
 export const option_from_promise =
     <T>(promise: Promise<T>): Promise<Option<T>> =>
-        promise.then(Some).catch(() => None<T>());
\ No newline at end of file
+        promise.then(Some).catch(() => None<T>());
+
+/**
+ * The function `Option.gen` passes to its generator: delegating with `yield*` to its result unwraps an Option.
+ */
+export type OptionGenUnwrap = <U>(option: Option<U>) => Generator<OptionNone<never>, U, any>;
+
+/**
+ * The function `Option.gen_async` passes to its generator: delegating with `yield*` to its result
+ * unwraps an `Option` or an `AsyncOption`.
+ */
+export type OptionGenUnwrapAsync = <U>(option: Option<U> | AsyncOption<U>) => AsyncGenerator<OptionNone<never>, U, any>;
+
+// delegating to this evaluates to the value of a Some, while a None is yielded to the runner of
+// `Option.gen`, which short-circuits the generator
+function* unwrap_gen<T>(option: Option<T>): Generator<OptionNone<never>, T, any> {
+    if (option.is_some()) {
+        return option.value;
+    }
+
+    // the runner stops the generator here, so it is never resumed
+    return yield option as any;
+}
+
+async function* unwrap_gen_async<T>(option: Option<T> | AsyncOption<T>): AsyncGenerator<OptionNone<never>, T, any> {
+    return yield* unwrap_gen(await option);
+}
+
+type SomeOf<O> = O extends Option<infer T> ? T : never;
+
+type OptionCollection = readonly [] | readonly Option<any>[] | Iterable<Option<any>> | { readonly [key: string]: Option<any> };
+type SomeValues<O> =
+    O extends readonly any[] ? { -readonly [K in keyof O]: SomeOf<O[K]> } :
+    O extends Iterable<infer I> ? SomeOf<I>[] :
+    { -readonly [K in keyof O]: SomeOf<O[K]> };
+
+export const Option = {
+    /**
+     * Runs a generator in which `yield* $(option)` unwraps an `Option`, emulating Rust's `?` operator.
+     * The first None delegated to short-circuits the generator; otherwise the generator's
+     * return value is wrapped in Some. Options themselves iterate over their value for spreading,
+     * so the generator is passed the function `$`, which provides the short-circuiting protocol.
+     * @param fn A generator function delegating to `$(option)` with `yield*`.
+     * @returns Some with the return value of the generator, or None.
+     *
+     * Usage Example:
+     * const city = Option.gen(function* ($) {
+     *   const user = yield* $(find_user(id));
+     *   const address = yield* $(option_from_nullable(user.address));
+     *   return address.city;
+     * });
+     */
+    gen<T>(fn: ($: OptionGenUnwrap) => Generator<OptionNone<any>, T, any>): Option<T> {
+        const iterator = fn(unwrap_gen);
+        const step = iterator.next();
+
+        if (step.done) {
+            return new OptionSome<T>(step.value);
+        }
+
+        // give `finally` blocks in the generator a chance to run
+        iterator.return(undefined as never);
+
+        return new OptionNone<T>();
+    },
+
+    /**
+     * Runs an async generator in which `yield* $(option)` unwraps an `Option` or an `AsyncOption`.
+     * Behaves like `Option.gen`, but allows awaiting in between steps.
+     * @param fn An async generator function delegating to `$(option)` with `yield*`.
+     * @returns An `AsyncOption` resolving to Some with the return value, or None.
+     *
+     * Usage Example:
+     * const city = Option.gen_async(async function* ($) {
+     *   const user = yield* $(AsyncOption.from_promise(fetch_user(id)));
+     *   return yield* $(option_from_nullable(user.city));
+     * });
+     */
+    gen_async<T>(fn: ($: OptionGenUnwrapAsync) => AsyncGenerator<OptionNone<any>, T, any>): AsyncOption<T> {
+        return new AsyncOption<T>((async (): Promise<Option<T>> => {
+            const iterator = fn(unwrap_gen_async);
+            const step = await iterator.next();
+
+            if (step.done) {
+                return new OptionSome<T>(step.value);
+            }
+
+            await iterator.return(undefined as never);
+
+            return new OptionNone<T>();
+        })());
+    },
+
+    /**
+     * Turns a tuple, array, record or any other iterable of Options into an Option of the same shape,
+     * which is None if any of the Options is None. The types of heterogeneous tuples and records are
+     * preserved; other iterables, like a `Set`, are collected into an array.
+     * @param options The tuple, array, record or iterable of Options.
+     * @returns Some with all values in the original shape, or None.
+     *
+     * Usage Example:
+     * const tuple = Option.all([Some(1), Some("two")]); // Some([1, "two"]): Option<[number, string]>
+     * const record = Option.all({ a: Some(1), b: None() }); // None
+     * const set = Option.all(new Set([Some(1), Some(2)])); // Some([1, 2])
+     */
+    all<O extends OptionCollection>(options: O): Option<SomeValues<O>> {
+        if (typeof (options as any)[Symbol.iterator] === 'function') {
+            return Option.collect(options as Iterable<Option<any>>) as Option<SomeValues<O>>;
+        }
+
+        const values: any = {};
+
+        for (const [key, option] of Object.entries(options)) {
+            if (option.is_none()) {
+                return new OptionNone<SomeValues<O>>();
+            }
+
+            values[key] = option.unwrap();
+        }
+
+        return new OptionSome<SomeValues<O>>(values);
+    },
+
+    /**
+     * Collects an iterable of Options into an Option of an array, stopping at the first None.
+     * @param options Any iterable of Options.
+     * @returns Some with all values, or None if any Option is None.
+     *
+     * Usage Example:
+     * const ids = Option.collect(rows.map(row => option_from_nullable(row.id))); // Option<number[]>
+     */
+    collect<T>(options: Iterable<Option<T>>): Option<T[]> {
+        const values: T[] = [];
+
+        for (const option of options) {
+            if (option.is_none()) {
+                return new OptionNone<T[]>();
+            }
+
+            values.push(option.unwrap());
+        }
+
+        return new OptionSome<T[]>(values);
+    },
+
+    /**
+     * Maps every item to an Option and keeps only the contained values of the Somes.
+     * @param items Any iterable of items.
+     * @param fn The function producing an Option for each item.
+     * @returns An array of all values for which `fn` returned Some.
+     *
+     * Usage Example:
+     * const numbers = Option.filter_map(["1", "x", "3"], parse); // [1, 3]
+     */
+    filter_map<A, T>(items: Iterable<A>, fn: (item: A, index: number) => Option<T>): T[] {
+        const values: T[] = [];
+        let index = 0;
+
+        for (const item of items) {
+            const option = fn(item, index++);
+
+            if (option.is_some()) {
+                values.push(option.value);
+            }
+        }
+
+        return values;
+    },
+
+    /**
+     * Returns the first Some among the given fallbacks. Functions are only called when
+     * all previous fallbacks were None, so expensive lookups can be deferred.
+     * @param options Options, or functions producing Options, in order of preference.
+     * @returns The first Some, or None if every fallback is None.
+     *
+     * Usage Example:
+     * const port = Option.first_some(from_env(), () => from_file(), Some(8080));
+     */
+    first_some<T>(...options: (Option<T> | (() => Option<T>))[]): Option<T> {
+        for (const option of options) {
+            const resolved = typeof option === 'function' ? option() : option;
+
+            if (resolved.is_some()) {
+                return resolved;
+            }
+        }
+
+        return new OptionNone<T>();
+    },
+
+    /**
+     * Keeps only the contained values of the Somes in an iterable of Options.
+     * @param options Any iterable of Options.
+     * @returns An array of all contained values, in their original order.
+     *
+     * Usage Example:
+     * const names = Option.values([Some("a"), None(), Some("b")]); // ["a", "b"]
+     */
+    values<T>(options: Iterable<Option<T>>): T[] {
+        return Option.filter_map(options, option => option);
+    },
+};
\ No newline at end of file
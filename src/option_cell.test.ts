@@ -0,0 +1,61 @@
+import { OptionCell } from './option_cell';
+import { Some, None } from './option';
+
+describe('OptionCell', () => {
+    it('holds None by default', () => {
+        const cell = new OptionCell<number>();
+        expect(cell.is_none()).toBe(true);
+        expect(cell.get()).toBeNone();
+    });
+
+    it('set() replaces the held Option', () => {
+        const cell = new OptionCell<number>();
+        cell.set(Some(5));
+        expect(cell.get()).toBeSome(5);
+    });
+
+    it('take() returns the held Option and leaves None', () => {
+        const cell = new OptionCell(Some(5));
+        expect(cell.take()).toBeSome(5);
+        expect(cell.is_none()).toBe(true);
+        expect(cell.take()).toBeNone();
+    });
+
+    it('take_if() only takes the value if the predicate holds', () => {
+        const cell = new OptionCell(Some(2));
+        expect(cell.take_if(x => x > 3)).toBeNone();
+        expect(cell.is_some()).toBe(true);
+
+        expect(cell.take_if(x => x > 1)).toBeSome(2);
+        expect(cell.is_none()).toBe(true);
+    });
+
+    it('replace() returns the old Option and holds the new value', () => {
+        const cell = new OptionCell(None<number>());
+        expect(cell.replace(5)).toBeNone();
+        expect(cell.replace(10)).toBeSome(5);
+        expect(cell.get()).toBeSome(10);
+    });
+
+    it('insert() returns the new value and holds it', () => {
+        const cell = new OptionCell(Some(5));
+        expect(cell.insert(10)).toBe(10);
+        expect(cell.get()).toBeSome(10);
+    });
+
+    it('get_or_insert() only inserts into None', () => {
+        const cell = new OptionCell<number>();
+        expect(cell.get_or_insert(5)).toBe(5);
+        expect(cell.get_or_insert(10)).toBe(5);
+        expect(cell.get()).toBeSome(5);
+    });
+
+    it('get_or_insert_with() computes the value once', () => {
+        const fn = jest.fn(() => new Map<string, number>());
+        const cell = new OptionCell<Map<string, number>>();
+        const first = cell.get_or_insert_with(fn);
+        const second = cell.get_or_insert_with(fn);
+        expect(first).toBe(second);
+        expect(fn).toHaveBeenCalledTimes(1);
+    });
+});
@@ -0,0 +1,147 @@
+import { Option, None } from './option';
+
+/**
+ * A mutable slot holding an immutable `Option`, giving `take`, `replace` and `insert` Rust's
+ * in-place semantics: after `take()`, the cell really is None.
+ *
+ * Usage Example:
+ * const cell = new OptionCell(Some(5));
+ * const taken = cell.take(); // Some(5)
+ * cell.is_none(); // true
+ */
+export class OptionCell<T> {
+    private option: Option<T>;
+
+    constructor(option: Option<T> = None<T>()) {
+        this.option = option;
+    }
+
+    /**
+     * Returns the Option currently held by the cell.
+     * @returns The current Option.
+     *
+     * Usage Example:
+     * const cell = new OptionCell(Some(5));
+     * cell.get(); // Some(5)
+     */
+    get(): Option<T> {
+        return this.option;
+    }
+
+    /**
+     * Replaces the Option held by the cell.
+     * @param option The new Option.
+     *
+     * Usage Example:
+     * const cell = new OptionCell<number>();
+     * cell.set(Some(5));
+     */
+    set(option: Option<T>): void {
+        this.option = option;
+    }
+
+    /**
+     * Checks if the cell holds a Some.
+     * @returns true if the cell holds a Some, otherwise false.
+     *
+     * Usage Example:
+     * new OptionCell(Some(5)).is_some(); // true
+     */
+    is_some(): boolean {
+        return this.option.is_some();
+    }
+
+    /**
+     * Checks if the cell holds None.
+     * @returns true if the cell holds None, otherwise false.
+     *
+     * Usage Example:
+     * new OptionCell<number>().is_none(); // true
+     */
+    is_none(): boolean {
+        return this.option.is_none();
+    }
+
+    /**
+     * Takes the Option out of the cell, leaving None in its place.
+     * @returns The Option the cell held.
+     *
+     * Usage Example:
+     * const cell = new OptionCell(Some(5));
+     * cell.take(); // Some(5), the cell is now None
+     */
+    take(): Option<T> {
+        return this.update(this.option.take());
+    }
+
+    /**
+     * Takes the Option out of the cell if its value satisfies a predicate, leaving None in its place.
+     * @param predicate The predicate to apply to the contained value.
+     * @returns The Option the cell held if the predicate returns true, otherwise None.
+     *
+     * Usage Example:
+     * const cell = new OptionCell(Some(5));
+     * cell.take_if(x => x > 3); // Some(5), the cell is now None
+     */
+    take_if(predicate: (arg: T) => boolean): Option<T> {
+        return this.update(this.option.take_if(predicate));
+    }
+
+    /**
+     * Puts a value into the cell.
+     * @param value The new value.
+     * @returns The Option the cell held before.
+     *
+     * Usage Example:
+     * const cell = new OptionCell(Some(5));
+     * cell.replace(10); // Some(5), the cell now holds Some(10)
+     */
+    replace(value: T): Option<T> {
+        return this.update(this.option.replace(value));
+    }
+
+    /**
+     * Puts a value into the cell.
+     * @param value The new value.
+     * @returns The inserted value.
+     *
+     * Usage Example:
+     * const cell = new OptionCell<number>();
+     * cell.insert(10); // 10, the cell now holds Some(10)
+     */
+    insert(value: T): T {
+        return this.update(this.option.insert(value));
+    }
+
+    /**
+     * Returns the value held by the cell, putting the provided value into it first if it is None.
+     * @param value The value to insert if the cell is None.
+     * @returns The contained or inserted value.
+     *
+     * Usage Example:
+     * const cell = new OptionCell<number>();
+     * cell.get_or_insert(10); // 10, the cell now holds Some(10)
+     */
+    get_or_insert(value: T): T {
+        return this.update(this.option.get_or_insert(value));
+    }
+
+    /**
+     * Returns the value held by the cell, putting a computed value into it first if it is None.
+     * @param fn The function computing the value to insert if the cell is None.
+     * @returns The contained or inserted value.
+     *
+     * Usage Example:
+     * const cache = new OptionCell<Map<string, User>>();
+     * const users = cache.get_or_insert_with(() => new Map()); // the same Map on every call
+     */
+    get_or_insert_with(fn: () => T): T {
+        return this.update(this.option.get_or_insert_with(fn));
+    }
+
+    private update<R>([result, option]: [R, Option<T>]): R {
+        this.option = option;
+
+        return result;
+    }
+}
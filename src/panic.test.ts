@@ -0,0 +1,159 @@
+import { Panic, UnwrapError, ExpectError, PanicHook, catch_unwind, panic, set_panic_hook } from './panic';
+import { Some, None } from './option';
+import { Ok, Err } from './result';
+import { Valid, Invalid } from './validation';
+
+const thrown = (fn: () => unknown): unknown => {
+    try {
+        fn();
+    } catch (e) {
+        return e;
+    }
+
+    throw new Error('expected the function to throw');
+};
+
+describe('panic', () => {
+    describe('Panic', () => {
+        it('keeps the payload as the cause and appends it to the message', () => {
+            const error = new Panic("invalid state", { id: 1 });
+            expect(error).toBeInstanceOf(Error);
+            expect(error.name).toBe('Panic');
+            expect(error.message).toBe('invalid state: {"id":1}');
+            expect(error.cause).toEqual({ id: 1 });
+            expect(error.payload).toEqual({ id: 1 });
+        });
+
+        it('has no cause without a payload', () => {
+            const error = new Panic("invalid state");
+            expect(error.message).toBe('invalid state');
+            expect('cause' in error).toBe(false);
+        });
+
+        it('formats unserializable payloads with String()', () => {
+            const circular: any = {};
+            circular.self = circular;
+            expect(new Panic("failed", circular).message).toBe('failed: [object Object]');
+            expect(new Panic("failed", 5n).message).toBe('failed: 5');
+            expect(new Panic("failed", undefined).message).toBe('failed: undefined');
+        });
+    });
+
+    describe('UnwrapError', () => {
+        it('is thrown by unwrap() with the original error as the cause', () => {
+            const io = new TypeError("ENOENT");
+            const error = thrown(() => Err(io).unwrap());
+            expect(error).toBeInstanceOf(UnwrapError);
+            expect(error).toBeInstanceOf(Panic);
+            expect((error as UnwrapError).cause).toBe(io);
+            expect((error as UnwrapError).message).toBe('Called Result.unwrap() on an Err value: TypeError: ENOENT');
+        });
+
+        it('prints object payloads instead of [object Object]', () => {
+            const error = thrown(() => Err({ code: 404 }).unwrap()) as UnwrapError;
+            expect(error.message).toBe('Called Result.unwrap() on an Err value: {"code":404}');
+        });
+
+        it('is thrown by unwrap_err(), into_ok() and into_err()', () => {
+            expect(thrown(() => Ok(5).unwrap_err())).toEqual(expect.objectContaining({ name: 'UnwrapError', cause: 5 }));
+            expect(thrown(() => (Err("failed") as any).into_ok())).toBeInstanceOf(UnwrapError);
+            expect(thrown(() => (Ok(5) as any).into_err())).toBeInstanceOf(UnwrapError);
+        });
+
+        it('is thrown by Option.unwrap() without a payload', () => {
+            const error = thrown(() => None().unwrap()) as UnwrapError;
+            expect(error).toBeInstanceOf(UnwrapError);
+            expect(error.message).toBe('Called Option.unwrap() on a None value');
+        });
+
+        it('is thrown by Validation.unwrap() and unwrap_errors()', () => {
+            const error = thrown(() => Invalid("name is empty").unwrap()) as UnwrapError;
+            expect(error).toBeInstanceOf(UnwrapError);
+            expect(error.cause).toEqual(["name is empty"]);
+            expect(thrown(() => Valid(5).unwrap_errors())).toBeInstanceOf(UnwrapError);
+        });
+    });
+
+    describe('ExpectError', () => {
+        it('is thrown by expect() with the message and the payload', () => {
+            const error = thrown(() => Err("timeout").expect("fetching user")) as ExpectError;
+            expect(error).toBeInstanceOf(ExpectError);
+            expect(error.message).toBe('fetching user: "timeout"');
+            expect(error.cause).toBe("timeout");
+        });
+
+        it('is thrown by expect_err(), expect_none() and Option.expect()', () => {
+            expect(thrown(() => Ok(5).expect_err("expected an error"))).toBeInstanceOf(ExpectError);
+            expect(thrown(() => Some(5).expect_none("expected nothing"))).toBeInstanceOf(ExpectError);
+            expect((thrown(() => None().expect("expected a value")) as ExpectError).message).toBe('expected a value');
+        });
+    });
+
+    describe('set_panic_hook', () => {
+        let previous: PanicHook | null;
+
+        beforeEach(() => {
+            previous = set_panic_hook(null);
+        });
+
+        afterEach(() => {
+            set_panic_hook(previous);
+        });
+
+        it('calls the hook with every panic before it is thrown', () => {
+            const panics: Panic[] = [];
+            set_panic_hook(p => panics.push(p));
+
+            const error = thrown(() => Err("failed").unwrap());
+            thrown(() => None().expect("expected a value"));
+
+            expect(panics).toHaveLength(2);
+            expect(panics[0]).toBe(error);
+            expect(panics[1]).toBeInstanceOf(ExpectError);
+        });
+
+        it('does not call the hook for values which do not panic', () => {
+            const hook = jest.fn();
+            set_panic_hook(hook);
+
+            Ok(5).unwrap();
+            Some(5).expect("expected a value");
+
+            expect(hook).not.toHaveBeenCalled();
+        });
+
+        it('returns the previous hook and can be removed', () => {
+            const hook = jest.fn();
+            set_panic_hook(hook);
+
+            expect(set_panic_hook(null)).toBe(hook);
+            thrown(() => None().unwrap());
+            expect(hook).not.toHaveBeenCalled();
+        });
+
+        it('is called by panic()', () => {
+            const hook = jest.fn();
+            set_panic_hook(hook);
+
+            const error = new Panic("invalid state");
+            expect(() => panic(error)).toThrow(error);
+            expect(hook).toHaveBeenCalledWith(error);
+        });
+    });
+
+    describe('catch_unwind', () => {
+        it('returns Ok with the return value', () => {
+            expect(catch_unwind(() => 5)).toBeOkWith(5);
+        });
+
+        it('turns a panic into an Err', () => {
+            const result = catch_unwind(() => Err("failed").unwrap());
+            expect(result).toBeErrWith(expect.any(UnwrapError));
+            expect(result.unwrap_err().payload).toBe("failed");
+        });
+
+        it('rethrows other exceptions', () => {
+            expect(() => catch_unwind(() => JSON.parse("{"))).toThrow(SyntaxError);
+        });
+    });
+});
@@ -0,0 +1,129 @@
+import { Result, ResultOk, ResultErr } from './result';
+
+/**
+ * A function called with every panic right before it is thrown.
+ */
+export type PanicHook = (panic: Panic) => void;
+
+let hook: PanicHook | null = null;
+
+// formats a panic payload for an error message, similar to Rust's `{:?}`
+const format_payload = (value: unknown): string => {
+    if (value instanceof Error) {
+        return `${value.name}: ${value.message}`;
+    }
+
+    try {
+        return JSON.stringify(value) ?? String(value);
+    } catch {
+        // circular structures and bigints
+        return String(value);
+    }
+};
+
+/**
+ * The error thrown when a value is used in a way that is a bug, like unwrapping `None` or an `Err`.
+ * The value that caused the panic, if any, is appended to the message and kept as the standard
+ * `Error.cause`, so the original error (with its stack trace) is not lost.
+ *
+ * Usage Example:
+ * try {
+ *   Err(new IoError("ENOENT")).unwrap();
+ * } catch (e) {
+ *   if (e instanceof Panic) {
+ *     console.log(e.payload); // IoError("ENOENT")
+ *   }
+ * }
+ */
+export class Panic<P = unknown> extends Error {
+    declare readonly cause: P;
+
+    constructor(message: string, ...payload: [] | [P]) {
+        super(
+            payload.length > 0 ? `${message}: ${format_payload(payload[0])}` : message,
+            payload.length > 0 ? { cause: payload[0] } : undefined,
+        );
+        this.name = 'Panic';
+    }
+
+    /**
+     * The value that caused the panic, e.g. the error of the unwrapped `Err`.
+     */
+    get payload(): P {
+        return this.cause;
+    }
+}
+
+/**
+ * Thrown by `unwrap`, `unwrap_err`, `into_ok` and `into_err` when called on the wrong variant.
+ * The payload is the contained value of that variant; unwrapping `None` has no payload.
+ */
+export class UnwrapError<P = unknown> extends Panic<P> {
+    constructor(message: string, ...payload: [] | [P]) {
+        super(message, ...payload);
+        this.name = 'UnwrapError';
+    }
+}
+
+/**
+ * Thrown by `expect`, `expect_err` and `expect_none` when called on the wrong variant, with the
+ * provided message. The payload is the contained value of that variant; `expect` on `None` has no payload.
+ */
+export class ExpectError<P = unknown> extends Panic<P> {
+    constructor(message: string, ...payload: [] | [P]) {
+        super(message, ...payload);
+        this.name = 'ExpectError';
+    }
+}
+
+/**
+ * Reports a panic to the panic hook and throws it.
+ * @param panic The panic to throw.
+ *
+ * Usage Example:
+ * const index = items.indexOf(item);
+ * if (index < 0) {
+ *   panic(new Panic("item is not in the list", item));
+ * }
+ */
+export const panic = (panic: Panic): never => {
+    hook?.(panic);
+
+    throw panic;
+};
+
+/**
+ * Registers a function which is called with every panic right before it is thrown, e.g. to log or
+ * report panics centrally. Only one hook is active at a time.
+ * @param fn The new hook, or null to remove the current one.
+ * @returns The previously registered hook, or null.
+ *
+ * Usage Example:
+ * set_panic_hook(panic => Sentry.captureException(panic));
+ */
+export const set_panic_hook = (fn: PanicHook | null): PanicHook | null => {
+    const previous = hook;
+    hook = fn;
+
+    return previous;
+};
+
+/**
+ * Runs a function, turning a panic thrown inside it back into an `Err`. Other exceptions are rethrown.
+ * @param fn The function to run.
+ * @returns Ok with the return value of the function, or Err with the panic.
+ *
+ * Usage Example:
+ * const result = catch_unwind(() => parse(input).unwrap()); // Result<number, Panic>
+ */
+export const catch_unwind = <T>(fn: () => T): Result<T, Panic> => {
+    try {
+        return new ResultOk<T, Panic>(fn());
+    } catch (e) {
+        if (e instanceof Panic) {
+            return new ResultErr<T, Panic>(e);
+        }
+
+        throw e;
+    }
+};
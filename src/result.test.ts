@@ -1,14 +1,24 @@
 import {
+    CollectOptions,
     Err,
     Ok,
     Result,
     result_from_promise,
     try_catch,
+    try_catch_async,
+    wrap,
+    wrap_async,
     ResultOk,
     ResultErr,
     isResultOk,
     isResultErr,
 } from './result';
+import { AsyncResult } from './async_result';
+import * as fc from 'fast-check';
+import { result_laws } from './testing';
+import { ContextError } from './context';
+import { Ordering } from './cmp';
+import { Option, Some, None } from './option';
 
 describe('Result', () => {
     describe('IResultCore', () => {
@@ -34,24 +44,22 @@ describe('Result', () => {
 
         it('ok returns Some for ResultOk', () => {
             const result = Ok(5);
-            expect(result.ok().is_some()).toBe(true);
-            expect(result.ok().unwrap()).toBe(5);
+            expect(result.ok()).toBeSome(5);
         });
 
         it('ok returns None for ResultErr', () => {
             const result = Err(new Error("Error"));
-            expect(result.ok().is_none()).toBe(true);
+            expect(result.ok()).toBeNone();
         });
 
         it('err returns Some for ResultErr', () => {
             const result = Err(new Error("Error"));
-            expect(result.err().is_some()).toBe(true);
-            expect(result.err().unwrap()).toEqual(new Error("Error"));
+            expect(result.err()).toBeSome(new Error("Error"));
         });
 
         it('err returns None for ResultOk', () => {
             const result = Ok(5);
-            expect(result.err().is_none()).toBe(true);
+            expect(result.err()).toBeNone();
         });
 
         it('expect returns value for ResultOk', () => {
@@ -151,17 +159,46 @@ describe('Result', () => {
             });
         });
 
+        describe('is_ok_or', () => {
+            it('returns true if result is Ok', () => {
+                const result = Ok(5) as Result<number, Error>;
+                expect(result.is_ok_or(() => false)).toBe(true);
+            });
+
+            it('applies the condition to the Err value', () => {
+                const network = Err(new Error("Network failure"));
+                const other = Err(new Error("Other error"));
+                expect(network.is_ok_or(e => e.message.includes("Network"))).toBe(true);
+                expect(other.is_ok_or(e => e.message.includes("Network"))).toBe(false);
+            });
+        });
+
+        describe('cloned', () => {
+            it('deep copies the Ok value', () => {
+                const result = Ok({ tags: ["a"] });
+                const copy = result.cloned();
+                copy.unwrap().tags.push("b");
+                expect(result.unwrap().tags).toEqual(["a"]);
+                expect(copy.unwrap().tags).toEqual(["a", "b"]);
+            });
+
+            it('returns ResultErr unchanged', () => {
+                const result = Err("Error");
+                expect(result.cloned()).toBe(result);
+            });
+        });
+
         describe('map', () => {
             it('transforms Ok value', () => {
                 const result = Ok(5);
                 const mapped = result.map(x => x * 2);
-                expect(mapped.unwrap()).toBe(10);
+                expect(mapped).toBeOkWith(10);
             });
 
             it('does not transform Err value', () => {
                 const result = Err("Error");
                 const mapped = result.map(x => x * 2);
-                expect(mapped.is_err()).toBe(true);
+                expect(mapped).toBeErr();
             });
         });
 
@@ -203,7 +240,7 @@ describe('Result', () => {
             it('does not transform Ok value', () => {
                 const result = Ok(5) as Result<number, Error>;
                 const mapped = result.map_err((e) => new Error(e.toString()));
-                expect(mapped.is_ok()).toBe(true);
+                expect(mapped).toBeOk();
             });
         });
 
@@ -213,7 +250,7 @@ describe('Result', () => {
                 const inspectSpy = jest.fn();
                 result.inspect(inspectSpy);
                 expect(inspectSpy).toHaveBeenCalledWith(5);
-                expect(result.unwrap()).toBe(5);
+                expect(result).toBeOkWith(5);
             });
 
             it('does not apply function to Err value', () => {
@@ -245,14 +282,14 @@ describe('Result', () => {
                 const result = Ok(5);
                 const other = Ok("Hello");
                 const finalResult = result.and(other);
-                expect(finalResult.unwrap()).toBe("Hello");
+                expect(finalResult).toBeOkWith("Hello");
             });
 
             it('returns original Err if result is Err', () => {
                 const result = Err("Error");
                 const other = Ok(5);
                 const finalResult = result.and(other);
-                expect(finalResult.is_err()).toBe(true);
+                expect(finalResult).toBeErr();
             });
         });
 
@@ -260,13 +297,13 @@ describe('Result', () => {
             it('applies function if result is Ok', () => {
                 const result = Ok(5);
                 const finalResult = result.and_then(x => Ok(x * 2));
-                expect(finalResult.unwrap()).toBe(10);
+                expect(finalResult).toBeOkWith(10);
             });
 
             it('returns original Err if result is Err', () => {
                 const result = Err("Error");
                 const finalResult = result.and_then(x => Ok(x * 2));
-                expect(finalResult.is_err()).toBe(true);
+                expect(finalResult).toBeErr();
             });
         });
 
@@ -275,14 +312,14 @@ describe('Result', () => {
                 const result = Ok(5) as Result<number, string>;
                 const other = Err("Alternate Error");
                 const finalResult = result.or(other);
-                expect(finalResult.unwrap()).toBe(5);
+                expect(finalResult).toBeOkWith(5);
             });
 
             it('returns other if result is Err', () => {
                 const result = Err("Error");
                 const other = Ok(5);
                 const finalResult = result.or(other);
-                expect(finalResult.unwrap()).toBe(5);
+                expect(finalResult).toBeOkWith(5);
             });
         });
 
@@ -290,13 +327,13 @@ describe('Result', () => {
             it('returns original Ok if result is Ok', () => {
                 const result = Ok(5) as Result<number, Error>;
                 const finalResult = result.or_else(e => Err(e.message + "handled"));
-                expect(finalResult.unwrap()).toBe(5);
+                expect(finalResult).toBeOkWith(5);
             });
 
             it('applies function if result is Err', () => {
                 const result = Err("Error") as Result<string, string>;
                 const finalResult = result.or_else(e => Ok(`Handled ${e}`));
-                expect(finalResult.unwrap()).toBe("Handled Error");
+                expect(finalResult).toBeOkWith("Handled Error");
             });
         });
 
@@ -323,8 +360,111 @@ describe('Result', () => {
                 expect(result.unwrap_or_else(() => 0)).toBe(0);
             });
         });
+
+        describe('unwrap_or_default', () => {
+            it('returns Ok value for ResultOk', () => {
+                expect(Ok(5).unwrap_or_default()).toBe(5);
+            });
+
+            it('returns null for ResultErr', () => {
+                const result = Err("Error") as Result<number, string>;
+                expect(result.unwrap_or_default()).toBe(null);
+            });
+        });
+
+        describe('unwrap_unchecked', () => {
+            it('returns Ok value for ResultOk', () => {
+                expect(Ok(5).unwrap_unchecked()).toBe(5);
+            });
+
+            it('does not throw for ResultErr', () => {
+                const result = Err("Error") as Result<number, string>;
+                expect(() => result.unwrap_unchecked()).not.toThrow();
+            });
+        });
+    });
+
+
+    describe('IResultCompare', () => {
+        it('eq compares results by variant and deep equality', () => {
+            expect(Ok({ id: 1 }).eq(Ok({ id: 1 }))).toBe(true);
+            expect(Err({ code: 1 }).eq(Err({ code: 1 }))).toBe(true);
+            expect((Ok(1) as Result<number, number>).eq(Err(1))).toBe(false);
+        });
+
+        it('eq accepts custom value and error comparisons', () => {
+            const never = () => false;
+            const always = () => true;
+            expect(Ok(1).eq(Ok(2), always)).toBe(true);
+            expect(Err("a").eq(Err("a"), always, never)).toBe(false);
+        });
+
+        it('cmp orders Ok before Err', () => {
+            const ok = Ok(5) as Result<number, string>;
+            const err = Err("failed") as Result<number, string>;
+            expect(ok.cmp(err)).toBe(Ordering.Less);
+            expect(err.cmp(ok)).toBe(Ordering.Greater);
+            expect(Ok(1).cmp(Ok(2))).toBe(Ordering.Less);
+            expect(Err(2).cmp(Err(1))).toBe(Ordering.Greater);
+        });
+
+        it('partial_cmp returns None for incomparable contents', () => {
+            expect(Ok(NaN).partial_cmp(Ok(1))).toBeNone();
+            expect((Ok(NaN) as Result<number, number>).partial_cmp(Err(1))).toBeSome(Ordering.Less);
+        });
     });
 
+    describe('match', () => {
+        it('calls the Ok handler for ResultOk', () => {
+            const result = Ok(5) as Result<number, string>;
+            expect(result.match({ Ok: x => x * 2, Err: e => e.length })).toBe(10);
+        });
+
+        it('calls the Err handler for ResultErr', () => {
+            const result = Err("Error") as Result<number, string>;
+            expect(result.match({ Ok: x => x * 2, Err: e => `failed: ${e}` })).toBe("failed: Error");
+        });
+
+        it('AsyncResult.match awaits async handlers', async () => {
+            const result = AsyncResult.from_result(Err("Error") as Result<number, string>);
+            expect(await result.match({ Ok: async x => x * 2, Err: async e => e.length })).toBe(5);
+        });
+    });
+
+    describe('context', () => {
+        it('wraps the Err value in a ContextError', () => {
+            const cause = new Error("not found");
+            const result = Err(cause).context("loading config");
+            const error = result.unwrap_err();
+            expect(error).toBeInstanceOf(ContextError);
+            expect(error.message).toBe("loading config");
+            expect(error.cause).toBe(cause);
+        });
+
+        it('passes Ok values through untouched', () => {
+            const result = Ok(5);
+            expect(result.context("loading config")).toBe(result);
+        });
+
+        it('with_context computes the context lazily', () => {
+            const fn = jest.fn((e: string) => `failed with ${e}`);
+            expect(Ok(5).with_context(fn)).toBeOkWith(5);
+            expect(fn).not.toHaveBeenCalled();
+            expect(Err("ENOENT").with_context(fn).unwrap_err().message).toBe("failed with ENOENT");
+        });
+
+        it('builds a chain across layers', () => {
+            const read = (): Result<string, string> => Err("ENOENT");
+            const load = () => read().context("reading config.toml").context("loading config");
+            expect(load().unwrap_err().chain().length).toBe(3);
+            expect(load().unwrap_err().root_cause()).toBe("ENOENT");
+        });
+
+        it('is available on AsyncResult', async () => {
+            const result = await AsyncResult.from_promise(Promise.reject("ENOENT")).context("loading config");
+            expect(result.unwrap_err().report()).toBe("loading config\n\nCaused by:\n    0: ENOENT");
+        });
+    });
 
     describe('IResultIteration', () => {
         describe('iter', () => {
@@ -339,6 +479,57 @@ describe('Result', () => {
                 const values = Array.from(result.iter());
                 expect(values).toEqual([]);
             });
+
+            it('supports spreading', () => {
+                expect([...Ok(5).iter()]).toEqual([5]);
+            });
+        });
+
+        describe('Symbol.iterator', () => {
+            it('spreads the contained value of an Ok', () => {
+                expect([...Ok(5)]).toEqual([5]);
+            });
+
+            it('spreads nothing for an Err', () => {
+                expect([...Err("failed")]).toEqual([]);
+            });
+
+            it('keeps results with different errors unequal', () => {
+                expect(Err("a")).not.toEqual(Err("b"));
+            });
+        });
+
+        describe('iter_err', () => {
+            it('yields contained error for ResultErr', () => {
+                expect([...Err("Error").iter_err()]).toEqual(["Error"]);
+            });
+
+            it('yields nothing for ResultOk', () => {
+                expect([...Ok(5).iter_err()]).toEqual([]);
+            });
+        });
+
+        describe('transpose', () => {
+            it('transposes Ok(Some) into Some(Ok)', () => {
+                const transposed = Ok(Some(5)).transpose();
+                expect(transposed).toBeSome(Ok(5));
+            });
+
+            it('transposes Ok(None) into None', () => {
+                const transposed = Ok(None<number>()).transpose();
+                expect(transposed).toBeNone();
+            });
+
+            it('transposes Err into Some(Err)', () => {
+                const result = Err("Error") as Result<Option<number>, string>;
+                const transposed = result.transpose();
+                expect(transposed).toBeSome(Err("Error"));
+            });
+
+            it('round-trips with Option.transpose', () => {
+                const result = Ok(Some(5)) as Result<Option<number>, string>;
+                expect(result.transpose().transpose()).toEqual(result);
+            });
         });
 
         describe('flatten', () => {
@@ -366,6 +557,209 @@ describe('Result', () => {
         });
     });
 
+    describe('Result.gen', () => {
+        const parse = (input: string): Result<number, 'NaN'> => {
+            const value = Number(input);
+            return isNaN(value) ? Err('NaN' as const) : Ok(value);
+        };
+
+        const positive = (value: number): Result<number, 'Negative'> =>
+            value < 0 ? Err('Negative' as const) : Ok(value);
+
+        it('returns Ok with the generator return value', () => {
+            const result = Result.gen(function* ($) {
+                const a = yield* $(parse("2"));
+                const b = yield* $(positive(a));
+                return a + b;
+            });
+            expect(result).toBeOkWith(4);
+        });
+
+        it('short-circuits on the first Err', () => {
+            const after = jest.fn();
+            const result: Result<number, 'NaN' | 'Negative'> = Result.gen(function* ($) {
+                const a = yield* $(parse("-2"));
+                const b = yield* $(positive(a));
+                after();
+                return b;
+            });
+            expect(result).toBeErrWith('Negative');
+            expect(after).not.toHaveBeenCalled();
+        });
+
+        it('runs finally blocks when short-circuiting', () => {
+            const cleanup = jest.fn();
+            const result = Result.gen(function* ($) {
+                try {
+                    return yield* $(parse("abc"));
+                } finally {
+                    cleanup();
+                }
+            });
+            expect(result).toBeErr();
+            expect(cleanup).toHaveBeenCalledTimes(1);
+        });
+
+        it('keeps spreading results available inside the generator', () => {
+            const result = Result.gen(function* ($) {
+                const a = yield* $(parse("2"));
+                return [...Ok(a), ...Err<number, string>("ignored")];
+            });
+            expect(result).toBeOkWith([2]);
+        });
+
+        it('gen_async unwraps Results and AsyncResults', async () => {
+            const load = (value: number) => AsyncResult.from_result<number, 'Missing'>(
+                value === 0 ? Err('Missing' as const) : Ok(value * 10),
+            );
+
+            const ok = await Result.gen_async(async function* ($) {
+                const a = yield* $(parse("2"));
+                const b = yield* $(load(a));
+                return b + 1;
+            });
+            expect(ok).toBeOkWith(21);
+
+            const err = await Result.gen_async(async function* ($) {
+                const a = yield* $(parse("0"));
+                return yield* $(load(a));
+            });
+            expect(err).toBeErrWith('Missing');
+        });
+    });
+
+    describe('Collection Methods', () => {
+        describe('all', () => {
+            it('collects a heterogeneous tuple of Ok values', () => {
+                const result: Result<[number, string, boolean], never> = Result.all([Ok(1), Ok("two"), Ok(true)]);
+                expect(result).toBeOkWith([1, "two", true]);
+            });
+
+            it('collects a record of Ok values', () => {
+                const result: Result<{ a: number, b: string }, never> = Result.all({ a: Ok(1), b: Ok("two") });
+                expect(result).toBeOkWith({ a: 1, b: "two" });
+            });
+
+            it('returns the first Err', () => {
+                const result = Result.all([Ok(1), Err("first"), Err("second")]);
+                expect(result).toBeErrWith("first");
+            });
+
+            it('collects every error with errors: all', () => {
+                const result = Result.all({ a: Err("first"), b: Ok(2), c: Err("second") }, { errors: 'all' });
+                expect(result).toBeErrWith(["first", "second"]);
+            });
+
+            it('returns Ok for an empty tuple', () => {
+                expect(Result.all([])).toBeOkWith([]);
+            });
+
+            it('collects any other iterable into an array', () => {
+                const set: Result<number[], string> = Result.all(new Set([Ok(1), Ok(2)]));
+                expect(set).toBeOkWith([1, 2]);
+                expect(Result.all(new Set([Ok(1), Err("a"), Err("b")]), { errors: 'all' })).toBeErrWith(["a", "b"]);
+
+                const widened: Iterable<Result<number, string>> | { [key: string]: Result<number, string> } = new Set([Ok(3)]);
+                expect(Result.all(widened)).toBeOkWith([3]);
+            });
+        });
+
+        describe('collect', () => {
+            it('collects any iterable of Ok values', () => {
+                const result = Result.collect(new Set([Ok(1), Ok(2)]));
+                expect(result).toBeOkWith([1, 2]);
+            });
+
+            it('stops consuming the iterable at the first Err', () => {
+                const consumed: number[] = [];
+                const results = function* (): Generator<Result<number, string>> {
+                    for (const n of [1, 2, 3]) {
+                        consumed.push(n);
+                        yield n === 2 ? Err(`bad ${n}`) : Ok(n);
+                    }
+                };
+                expect(Result.collect(results())).toBeErrWith("bad 2");
+                expect(consumed).toEqual([1, 2]);
+            });
+
+            it('collects every error with errors: all', () => {
+                const result = Result.collect([Err("a"), Ok(1), Err("b")], { errors: 'all' });
+                expect(result).toBeErrWith(["a", "b"]);
+            });
+        });
+
+        describe('traverse', () => {
+            const parse = (input: string): Result<number, string> =>
+                isNaN(Number(input)) ? Err(`invalid ${input}`) : Ok(Number(input));
+
+            it('maps and collects all items', () => {
+                expect(Result.traverse(["1", "2"], parse)).toBeOkWith([1, 2]);
+            });
+
+            it('does not map items after the first Err', () => {
+                const fn = jest.fn(parse);
+                expect(Result.traverse(["1", "x", "y"], fn)).toBeErrWith("invalid x");
+                expect(fn).toHaveBeenCalledTimes(2);
+            });
+
+            it('passes the index to the function', () => {
+                expect(Result.traverse(["a", "b"], (item, index) => Ok(`${index}${item}`))).toBeOkWith(["0a", "1b"]);
+            });
+
+            it('collects every error with errors: all', () => {
+                expect(Result.traverse(["1", "x", "y"], parse, { errors: 'all' })).toBeErrWith(["invalid x", "invalid y"]);
+            });
+        });
+
+        describe('sequence', () => {
+            it('turns an iterable of results into a result of an array', () => {
+                expect(Result.sequence(["1", "2"].map(x => Ok(Number(x))))).toBeOkWith([1, 2]);
+                expect(Result.sequence([Ok(1), Err("a"), Err("b")])).toBeErrWith("a");
+            });
+
+            it('collects every error with errors: all', () => {
+                expect(Result.sequence([Ok(1), Err("a"), Err("b")], { errors: 'all' })).toBeErrWith(["a", "b"]);
+            });
+        });
+
+        describe('options', () => {
+            it('types the error as either shape when the options are not a literal', () => {
+                const options: CollectOptions = { errors: 'all' };
+                const result: Result<number[], string | string[]> = Result.collect([Err("a"), Err("b")], options);
+                // @ts-expect-error the errors may have been collected into an array
+                const narrowed: Result<number[], string> = Result.collect([Err("a")], options);
+
+                expect(result).toBeErrWith(["a", "b"]);
+                expect(narrowed).toBeErr();
+            });
+
+            it('types the error as the first error with errors: first', () => {
+                const result: Result<number[], string> = Result.all([Ok(1), Err("a")], { errors: 'first' });
+                expect(result).toBeErrWith("a");
+            });
+        });
+
+        describe('partition', () => {
+            it('splits Ok and Err values', () => {
+                const [oks, errs] = Result.partition([Ok(1), Err("a"), Ok(2), Err("b")]);
+                expect(oks).toEqual([1, 2]);
+                expect(errs).toEqual(["a", "b"]);
+            });
+        });
+
+        describe('any', () => {
+            it('returns the first Ok', () => {
+                const result = Result.any([Err("a"), Ok(1), Ok(2)]);
+                expect(result).toBeOkWith(1);
+            });
+
+            it('returns every error if there is no Ok', () => {
+                const result = Result.any([Err("a"), Err("b")]);
+                expect(result).toBeErrWith(["a", "b"]);
+            });
+        });
+    });
+
     describe('Utility Methods', () => {
         class MyOk<T> extends ResultOk<T, any> { }
         class MyErr<E> extends ResultErr<any, E> { }
@@ -411,8 +805,7 @@ describe('Result', () => {
         describe('try_catch function', () => {
             it('should return Ok result for successful function execution', () => {
                 const result = try_catch(() => 42);
-                expect(result.is_ok()).toBe(true);
-                expect(result.unwrap()).toBe(42);
+                expect(result).toBeOkWith(42);
             });
 
             it('should return Err result for function that throws', () => {
@@ -420,26 +813,121 @@ describe('Result', () => {
                 const result = try_catch(() => {
                     throw new Error(errorMsg);
                 });
-                expect(result.is_err()).toBe(true);
+                expect(result).toBeErr();
                 expect(result.unwrap_err().message).toBe(errorMsg);
             });
+
+            it('should convert the caught value with mapError', () => {
+                class ParseError {
+                    constructor(readonly reason: string) { }
+                }
+
+                const result: Result<unknown, ParseError> = try_catch(
+                    () => JSON.parse("{"),
+                    error => new ParseError(error instanceof Error ? error.name : String(error)),
+                );
+                expect(result).toBeErrWith(new ParseError("SyntaxError"));
+            });
+
+            it('should not call mapError on success', () => {
+                const mapError = jest.fn();
+                expect(try_catch(() => 42, mapError)).toBeOkWith(42);
+                expect(mapError).not.toHaveBeenCalled();
+            });
+        });
+
+        describe('try_catch_async function', () => {
+            it('should return Ok with the resolved value', async () => {
+                const result = try_catch_async(async () => 42);
+                expect(result).toBeInstanceOf(AsyncResult);
+                expect(await result).toBeOkWith(42);
+            });
+
+            it('should accept synchronous functions', async () => {
+                expect(await try_catch_async(() => 42)).toBeOkWith(42);
+            });
+
+            it('should map rejections and synchronous throws', async () => {
+                const rejected = try_catch_async(() => Promise.reject(new Error("timeout")), e => String(e));
+                expect(await rejected).toBeErrWith("Error: timeout");
+
+                const thrown = try_catch_async((): Promise<number> => {
+                    throw new Error("invalid");
+                }, e => (e as Error).message);
+                expect(await thrown).toBeErrWith("invalid");
+            });
+        });
+
+        describe('wrap function', () => {
+            it('should keep the parameters of the wrapped function', () => {
+                const divide = (a: number, b: number): number => {
+                    if (b === 0) {
+                        throw new RangeError("division by zero");
+                    }
+
+                    return a / b;
+                };
+                const safe_divide = wrap(divide, e => (e as Error).message);
+
+                const ok: Result<number, string> = safe_divide(6, 3);
+                expect(ok).toBeOkWith(2);
+                expect(safe_divide(1, 0)).toBeErrWith("division by zero");
+            });
+
+            it('should call the wrapped function with the same this', () => {
+                const counter = {
+                    count: 1,
+                    next(step: number) {
+                        return this.count += step;
+                    },
+                };
+                const wrapped = { ...counter, next: wrap(counter.next) };
+                expect(wrapped.next(2)).toBeOkWith(3);
+            });
+
+            it('should assume the thrown value is an E without mapError', () => {
+                const result = wrap(JSON.parse)("{");
+                expect(result).toBeErrWith(expect.any(SyntaxError));
+            });
+        });
+
+        describe('wrap_async function', () => {
+            it('should turn an async function into one returning an AsyncResult', async () => {
+                const fetch_user = async (id: number): Promise<{ id: number }> => {
+                    if (id < 0) {
+                        throw new Error("not found");
+                    }
+
+                    return { id };
+                };
+                const safe_fetch_user = wrap_async(fetch_user, e => (e as Error).message);
+
+                const found: Result<{ id: number }, string> = await safe_fetch_user(1);
+                expect(found).toBeOkWith({ id: 1 });
+                expect(await safe_fetch_user(-1)).toBeErrWith("not found");
+            });
         });
 
         describe('result_from_promise function', () => {
             it('should return Ok result for resolved promise', async () => {
                 const promise = Promise.resolve(42);
                 const result = await result_from_promise(promise);
-                expect(result.is_ok()).toBe(true);
-                expect(result.unwrap()).toBe(42);
+                expect(result).toBeOkWith(42);
             });
 
             it('should return Err result for rejected promise', async () => {
                 const errorMsg = 'Promise rejected';
                 const promise = Promise.reject(new Error(errorMsg));
                 const result = await result_from_promise(promise);
-                expect(result.is_err()).toBe(true);
+                expect(result).toBeErr();
                 expect(result.unwrap_err().message).toBe(errorMsg);
             });
         });
     });
+
+    describe('Laws', () => {
+        for (const law of result_laws(fc.integer(), fc.string())) {
+            it(law.name, () => fc.assert(law.property));
+        }
+    });
 });
\ No newline at end of file
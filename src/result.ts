@@ -1,8 +1,18 @@
+import { AsyncResult } from './async_result';
+import { Ordering, compare, deep_equal, partial_compare } from './cmp';
+import { ContextError } from './context';
+import { DenoInspect, NodeInspect, NodeInspectOptions, format_debug, inspect_deno, inspect_node } from './format';
+import { Iter } from './iter';
+import { ResultJSON } from './json';
 import { Option, None, Some } from './option';
+import { ExpectError, UnwrapError, panic } from './panic';
+import { CaughtTags, TagHandlers, Tagged, Tags } from './tagged';
 
 export type Result<T, E> =
     ResultOk<T, E> | ResultErr<T, E>;
 
+declare const structuredClone: <V>(value: V) => V;
+
 export interface IResultCore<T, E> {
     /**
      * Checks if the result is an instance of `ResultOk`.
@@ -77,6 +87,18 @@ export interface IResultCore<T, E> {
      */
     unwrap(): T;
 
+    /**
+     * Returns the contained value without checking that the result is a `ResultOk`.
+     * Calling this on a `ResultErr` returns the error disguised as a `T`, so only use it
+     * where the result is known to be Ok and the check is measurably too expensive.
+     * @returns The `ResultOk` value.
+     *
+     * Usage Example:
+     * const result = Ok(5);
+     * console.log(result.unwrap_unchecked()); // 5
+     */
+    unwrap_unchecked(): T;
+
     /**
      * Returns the contained `ResultErr` error, but throws an error with a provided message if
      * the result is a `ResultOk`.
@@ -145,6 +167,28 @@ export interface IResultCore<T, E> {
      * const transmuted: Result<never, Error> = result.transmute();
      */
     transmute(): Result<T, never> | Result<never, E>;
+
+    /**
+     * Converts the result into its wire format, which is used by `JSON.stringify`.
+     * Use `json_reviver` or a codec to turn it back into a `Result`.
+     * @returns `{ $rsult: 'Ok', value }` or `{ $rsult: 'Err', value }`.
+     *
+     * Usage Example:
+     * JSON.stringify(Ok(5)); // '{"$rsult":"Ok","value":5}'
+     */
+    toJSON(): ResultJSON<T, E>;
+
+    /**
+     * Formats the result like Rust's `Debug` output, with strings quoted and nested Options and Results
+     * formatted the same way. `console.log` and `util.inspect` in Node and Deno use the same format,
+     * with their own depth limit and colors.
+     * @returns `Ok(<value>)` or `Err(<error>)`.
+     *
+     * Usage Example:
+     * Ok(Some({ id: 1 })).toString(); // 'Ok(Some({ id: 1 }))'
+     * `${Err("failed")}`; // 'Err("failed")'
+     */
+    toString(): string;
 }
 
 export interface IResultExt<T, E> extends IResultCore<T, E> {
@@ -179,6 +223,19 @@ export interface IResultExt<T, E> extends IResultCore<T, E> {
      */
     is_err_and(f: (value: E) => boolean): boolean;
 
+    /**
+     * Checks if the result is `ResultOk`, or a `ResultErr` whose error satisfies a condition.
+     * @param f A predicate function to apply to the Err value.
+     * @returns true if the result is Ok or the predicate returns true for the Err value, otherwise false.
+     *
+     * Usage Example:
+     * const result = Err(new Error("Network failure"));
+     * if (result.is_ok_or(e => e.message.includes("Network"))) {
+     *   console.log("Ok, or a retryable error");
+     * }
+     */
+    is_ok_or(f: (value: E) => boolean): boolean;
+
     /**
      * Transforms the result via a mapping function if it is Ok.
      * @param fn A function to transform the Ok value.
@@ -256,6 +313,18 @@ export interface IResultExt<T, E> extends IResultCore<T, E> {
      */
     inspect_err(f: (val: E) => void): Result<T, E>;
 
+    /**
+     * Returns a new Result with a deep copy of the Ok value, made with `structuredClone`.
+     * @returns A new Result whose Ok value shares no references with the original.
+     * @throws Throws if the Ok value cannot be cloned, e.g. because it contains functions.
+     *
+     * Usage Example:
+     * const result = Ok({ tags: ["a"] });
+     * const copy = result.cloned();
+     * copy.unwrap().tags.push("b"); // result still contains ["a"]
+     */
+    cloned(): Result<T, E>;
+
     /**
      * Returns `res` if the result is Ok, otherwise returns the Err value of `self`.
      * @param res The result to return if `self` is Ok.
@@ -326,14 +395,93 @@ export interface IResultExt<T, E> extends IResultCore<T, E> {
      * console.log(result.unwrap_or_else(() => 5)); // 5
      */
     unwrap_or_else(fn: (arg: E) => T): T;
+
+    /**
+     * Returns the contained Ok value, or `null` if the result is Err.
+     * @returns The Ok value or `null`.
+     *
+     * Usage Example:
+     * const result = Err("Error");
+     * console.log(result.unwrap_or_default()); // null
+     */
+    unwrap_or_default(): T | null;
+
+    /**
+     * Exhaustively matches on the result, calling `Ok` with the contained value or `Err` with the contained error.
+     * @param arms The handlers for both variants; both are required.
+     * @returns The value returned by the handler that was called.
+     *
+     * Usage Example:
+     * const result = Ok(5);
+     * const message = result.match({
+     *   Ok: x => `Value: ${x}`,
+     *   Err: e => `Error: ${e}`,
+     * }); // "Value: 5"
+     */
+    match<A, B>(arms: { Ok: (value: T) => A; Err: (error: E) => B }): A | B;
+
+    /**
+     * Wraps the contained error in a `ContextError` describing what was being done, keeping the
+     * original error as its `cause`. An `Ok` value is passed through untouched.
+     * @param context A description of the operation that failed.
+     * @returns The original Ok, or an Err containing a `ContextError`.
+     *
+     * Usage Example:
+     * const result = Err(new Error("not found")).context("loading config");
+     * result.unwrap_err().report(); // "loading config\n\nCaused by:\n    0: not found"
+     */
+    context(context: string): Result<T, ContextError<E>>;
+
+    /**
+     * Like `context`, but computes the description lazily, only if the result is Err.
+     * @param fn A function computing a description of the operation that failed.
+     * @returns The original Ok, or an Err containing a `ContextError`.
+     *
+     * Usage Example:
+     * const result = read_file(path).with_context(() => `reading ${path}`);
+     */
+    with_context(fn: (error: E) => string): Result<T, ContextError<E>>;
+
+    /**
+     * Handles the errors tagged with `tag` (see `TaggedError`), removing the tag from the error type.
+     * Errors with other tags and Ok values are passed through untouched.
+     * @param tag The `_tag` of the errors to handle.
+     * @param fn A function producing a new Result from the narrowed error.
+     * @returns The result of `fn` if the error has the given tag, otherwise the original Result.
+     *
+     * Usage Example:
+     * const result: Result<User, NotFound | Timeout> = find_user(id);
+     * const handled = result.catch_tag("NotFound", () => Ok(guest)); // Result<User, Timeout>
+     */
+    catch_tag<K extends Tags<E>, U = T, F = never>(
+        tag: K,
+        fn: (error: Tagged<E, K>) => Result<U, F>,
+    ): Result<T | U, Exclude<E, { readonly _tag: K }> | F>;
+
+    /**
+     * Handles several error tags at once, removing every handled tag from the error type.
+     * @param handlers An object mapping tags to functions producing a new Result from the narrowed error.
+     * @returns The result of the matching handler, otherwise the original Result.
+     *
+     * Usage Example:
+     * const result: Result<User, NotFound | Timeout> = find_user(id);
+     * const handled = result.catch_tags({
+     *   NotFound: () => Ok(guest),
+     *   Timeout: e => Err(new Unavailable({ cause: e })),
+     * }); // Result<User, Unavailable>
+     */
+    catch_tags<H extends TagHandlers<E>>(
+        handlers: H & Record<Exclude<keyof H, Tags<E>>, never>,
+    ): CaughtTags<T, E, H>;
 }
 
 type UnwrapResult<T> = T extends Result<infer U, any> ? U : T;
+type TransposedResult<T, E> = [T] extends [Option<infer U>] ? Option<Result<U, E>> : never;
 
 export interface IResultIteration<T, E> extends IResultCore<T, E> {
     /**
-     * Returns an iterator over the potentially contained value.
-     * @returns An iterator which yields the contained value if it is `ResultOk<T, E>`.
+     * Returns a lazy `Iter` over the potentially contained value.
+     * @returns An Iter which yields the contained value if it is `ResultOk<T, E>`.
      *
      * Usage Example:
      * const okResult = Ok(5);
@@ -345,8 +493,19 @@ export interface IResultIteration<T, E> extends IResultCore<T, E> {
      * for (const value of errResult.iter()) {
      *   // This block will not be executed.
      * }
+     *
+     * const doubled = okResult.iter().map(x => x * 2).next(); // Some(10)
+     */
+    iter(): Iter<T>;
+
+    /**
+     * Returns a lazy `Iter` over the potentially contained error.
+     * @returns An Iter which yields the contained error if it is `ResultErr<T, E>`.
+     *
+     * Usage Example:
+     * const errors = results.flatMap(result => [...result.iter_err()]);
      */
-    iter(): IterableIterator<T>;
+    iter_err(): Iter<E>;
 
     /**
      * Flattens a nested `Result` if the contained value is itself a `Result`.
@@ -360,12 +519,80 @@ export interface IResultIteration<T, E> extends IResultCore<T, E> {
      * const flattenedError = nestedErr.flatten(); // Results in Err(new Error("error"))
      */
     flatten(): Result<UnwrapResult<T>, E>;
+
+    /**
+     * Transposes a `Result` of an `Option` into an `Option` of a `Result`.
+     * `Ok(None)` becomes `None`, `Ok(Some(x))` becomes `Some(Ok(x))` and `Err(e)` becomes `Some(Err(e))`.
+     * @returns The transposed `Option`.
+     *
+     * Usage Example:
+     * const parsed: Result<Option<number>, ParseError> = parse_optional(input);
+     * const transposed = parsed.transpose(); // Option<Result<number, ParseError>>
+     */
+    transpose(): TransposedResult<T, E>;
+
+    /**
+     * Makes the result iterable, like Rust's `IntoIterator`: spreading or looping over an Ok yields the
+     * contained value, while an Err yields nothing.
+     *
+     * Usage Example:
+     * const values = [...Ok(5)]; // [5]
+     * const none = [...Err("failed")]; // []
+     */
+    [Symbol.iterator](): Iterator<T>;
+}
+
+export interface IResultCompare<T, E> {
+    /**
+     * Checks if two results are equal: both Ok with equal values, or both Err with equal errors.
+     * @param other The result to compare with.
+     * @param valueEq The function comparing Ok values; defaults to deep equality.
+     * @param errorEq The function comparing Err values; defaults to deep equality.
+     * @returns true if both results are equal, otherwise false.
+     *
+     * Usage Example:
+     * Ok({ id: 1 }).eq(Ok({ id: 1 })); // true
+     * Ok(1).eq(Err(1)); // false
+     */
+    eq(other: Result<T, E>, valueEq?: (a: T, b: T) => boolean, errorEq?: (a: E, b: E) => boolean): boolean;
+
+    /**
+     * Compares two results, ordering any Ok before any Err, and results of the same variant by their contents.
+     * @param other The result to compare with.
+     * @param cmpFn The function comparing Ok values; defaults to `compare`.
+     * @param errorCmpFn The function comparing Err values; defaults to `compare`.
+     * @returns The ordering of this result relative to `other`.
+     * @throws TypeError if the contents are not comparable and no comparison function is given.
+     *
+     * Usage Example:
+     * Ok(5).cmp(Err("failed")); // Ordering.Less
+     * Err(2).cmp(Err(1)); // Ordering.Greater
+     */
+    cmp(other: Result<T, E>, cmpFn?: (a: T, b: T) => Ordering, errorCmpFn?: (a: E, b: E) => Ordering): Ordering;
+
+    /**
+     * Compares two results like `cmp`, returning None if their contents are not comparable.
+     * @param other The result to compare with.
+     * @param cmpFn The function comparing Ok values; defaults to `partial_compare`.
+     * @param errorCmpFn The function comparing Err values; defaults to `partial_compare`.
+     * @returns Some with the ordering of this result relative to `other`, or None.
+     *
+     * Usage Example:
+     * Ok(NaN).partial_cmp(Ok(1)); // None
+     * Ok(NaN).partial_cmp(Err(1)); // Some(Ordering.Less)
+     */
+    partial_cmp(
+        other: Result<T, E>,
+        cmpFn?: (a: T, b: T) => Option<Ordering>,
+        errorCmpFn?: (a: E, b: E) => Option<Ordering>,
+    ): Option<Ordering>;
 }
 
 export interface IResult<T, E> extends
     IResultCore<T, E>,
     IResultExt<T, E>,
-    IResultIteration<T, E> {}
+    IResultIteration<T, E>,
+    IResultCompare<T, E> {}
 
 export const isResultOk = <T, E>(val: any): val is ResultOk<T, E> => {
     return val instanceof ResultOk;
@@ -401,6 +628,10 @@ export class ResultOk<T, E> implements IResult<T, E> {
         return false;
     }
 
+    is_ok_or(_f: (value: E) => boolean): boolean {
+        return true;
+    }
+
     ok(): Option<T> {
         return Some(this.value);
     }
@@ -435,8 +666,16 @@ export class ResultOk<T, E> implements IResult<T, E> {
         return this;
     }
 
-    iter(): IterableIterator<T> {
-        return [this.value][Symbol.iterator]();
+    cloned(): Result<T, E> {
+        return new ResultOk<T, E>(structuredClone(this.value));
+    }
+
+    iter(): Iter<T> {
+        return new Iter([this.value]);
+    }
+
+    iter_err(): Iter<E> {
+        return new Iter<E>([]);
     }
 
     expect(_msg: string): T {
@@ -447,16 +686,20 @@ export class ResultOk<T, E> implements IResult<T, E> {
         return this.value;
     }
 
-    //unwrap_or_default(): T {
-    //    ! not implemented
-    //}
+    unwrap_unchecked(): T {
+        return this.value;
+    }
+
+    unwrap_or_default(): T | null {
+        return this.value;
+    }
 
     expect_err(msg: string): E {
-        throw new Error(msg);
+        return panic(new ExpectError(msg, this.value));
     }
 
     unwrap_err(): never {
-        throw new Error('Called Result.unwrap_err() on an Ok value: ' + this.value);
+        return panic(new UnwrapError('Called Result.unwrap_err() on an Ok value', this.value));
     }
 
     and<U>(res: Result<U, E>): Result<U, E> {
@@ -483,6 +726,47 @@ export class ResultOk<T, E> implements IResult<T, E> {
         return this.value;
     }
 
+    match<A, B>(arms: { Ok: (value: T) => A; Err: (error: E) => B }): A | B {
+        return arms.Ok(this.value);
+    }
+
+    eq(other: Result<T, E>, valueEq: (a: T, b: T) => boolean = deep_equal, _errorEq?: (a: E, b: E) => boolean): boolean {
+        return other.is_ok() && valueEq(this.value, other.value);
+    }
+
+    cmp(other: Result<T, E>, cmpFn: (a: T, b: T) => Ordering = compare, _errorCmpFn?: (a: E, b: E) => Ordering): Ordering {
+        return other.is_ok() ? cmpFn(this.value, other.value) : Ordering.Less;
+    }
+
+    partial_cmp(
+        other: Result<T, E>,
+        cmpFn: (a: T, b: T) => Option<Ordering> = partial_compare,
+        _errorCmpFn?: (a: E, b: E) => Option<Ordering>,
+    ): Option<Ordering> {
+        return other.is_ok() ? cmpFn(this.value, other.value) : Some(Ordering.Less);
+    }
+
+    context(_context: string): Result<T, ContextError<E>> {
+        return this as any;
+    }
+
+    with_context(_fn: (error: E) => string): Result<T, ContextError<E>> {
+        return this as any;
+    }
+
+    catch_tag<K extends Tags<E>, U = T, F = never>(
+        _tag: K,
+        _fn: (error: Tagged<E, K>) => Result<U, F>,
+    ): Result<T | U, Exclude<E, { readonly _tag: K }> | F> {
+        return this as any;
+    }
+
+    catch_tags<H extends TagHandlers<E>>(
+        _handlers: H & Record<Exclude<keyof H, Tags<E>>, never>,
+    ): CaughtTags<T, E, H> {
+        return this as any;
+    }
+
     flatten(): Result<UnwrapResult<T>, E> {
         if (this.value instanceof ResultOk || this.value instanceof ResultErr) {
             return this.value;
@@ -493,17 +777,51 @@ export class ResultOk<T, E> implements IResult<T, E> {
         }
     }
 
+    transpose(): TransposedResult<T, E> {
+        const option = this.value as unknown as Option<unknown>;
+
+        if (option.is_none()) {
+            return None() as any;
+        }
+
+        return Some(new ResultOk(option.value)) as any;
+    }
+
     into_ok(): T {
         return this.value;
     }
 
     into_err(): never {
-        throw new Error('Called Result.into_err() on an Ok value: ' + this.value);
+        return panic(new UnwrapError('Called Result.into_err() on an Ok value', this.value));
     }
 
     transmute(): Result<T, never> {
         return this as any;
     }
+
+    toJSON(): ResultJSON<T, E> {
+        return { $rsult: 'Ok', value: this.value };
+    }
+
+    toString(): string {
+        return format_debug(this);
+    }
+
+    get [Symbol.toStringTag](): string {
+        return 'Result';
+    }
+
+    [Symbol.for('nodejs.util.inspect.custom')](depth: number, options: NodeInspectOptions, inspect?: NodeInspect): string {
+        return inspect_node(this, depth, options, inspect);
+    }
+
+    [Symbol.for('Deno.customInspect')](inspect: DenoInspect, options: unknown): string {
+        return inspect_deno(this, inspect, options);
+    }
+
+    *[Symbol.iterator](): Iterator<T> {
+        yield this.value;
+    }
 }
 
 export class ResultErr<T, E> implements IResult<T, E> {
@@ -532,6 +850,10 @@ export class ResultErr<T, E> implements IResult<T, E> {
         return f(this.value);
     }
 
+    is_ok_or(f: (value: E) => boolean): boolean {
+        return f(this.value);
+    }
+
     ok(): Option<T> {
         return None();
     }
@@ -565,21 +887,33 @@ export class ResultErr<T, E> implements IResult<T, E> {
         return this;
     }
 
-    iter(): IterableIterator<T> {
-        return [][Symbol.iterator]();
+    cloned(): Result<T, E> {
+        return this;
+    }
+
+    iter(): Iter<T> {
+        return new Iter<T>([]);
+    }
+
+    iter_err(): Iter<E> {
+        return new Iter([this.value]);
     }
 
     expect(msg: string): never {
-        throw new Error(msg);
+        return panic(new ExpectError(msg, this.value));
     }
 
     unwrap(): never {
-        throw new Error('Called Result.unwrap() on an Err value: ' + this.value);
+        return panic(new UnwrapError('Called Result.unwrap() on an Err value', this.value));
     }
 
-    //unwrap_or_default(): never {
-    //    // ! not implemented
-    //}
+    unwrap_unchecked(): T {
+        return this.value as unknown as T;
+    }
+
+    unwrap_or_default(): T | null {
+        return null;
+    }
 
     expect_err(_msg: string): E {
         return this.value;
@@ -613,12 +947,66 @@ export class ResultErr<T, E> implements IResult<T, E> {
         return fn(this.value);
     }
 
+    match<A, B>(arms: { Ok: (value: T) => A; Err: (error: E) => B }): A | B {
+        return arms.Err(this.value);
+    }
+
+    eq(other: Result<T, E>, _valueEq?: (a: T, b: T) => boolean, errorEq: (a: E, b: E) => boolean = deep_equal): boolean {
+        return other.is_err() && errorEq(this.value, other.value);
+    }
+
+    cmp(other: Result<T, E>, _cmpFn?: (a: T, b: T) => Ordering, errorCmpFn: (a: E, b: E) => Ordering = compare): Ordering {
+        return other.is_err() ? errorCmpFn(this.value, other.value) : Ordering.Greater;
+    }
+
+    partial_cmp(
+        other: Result<T, E>,
+        _cmpFn?: (a: T, b: T) => Option<Ordering>,
+        errorCmpFn: (a: E, b: E) => Option<Ordering> = partial_compare,
+    ): Option<Ordering> {
+        return other.is_err() ? errorCmpFn(this.value, other.value) : Some(Ordering.Greater);
+    }
+
+    context(context: string): Result<T, ContextError<E>> {
+        return new ResultErr<T, ContextError<E>>(new ContextError(context, this.value));
+    }
+
+    with_context(fn: (error: E) => string): Result<T, ContextError<E>> {
+        return this.context(fn(this.value));
+    }
+
+    catch_tag<K extends Tags<E>, U = T, F = never>(
+        tag: K,
+        fn: (error: Tagged<E, K>) => Result<U, F>,
+    ): Result<T | U, Exclude<E, { readonly _tag: K }> | F> {
+        if ((this.value as any)?._tag === tag) {
+            return fn(this.value as Tagged<E, K>);
+        }
+
+        return this as any;
+    }
+
+    catch_tags<H extends TagHandlers<E>>(
+        handlers: H & Record<Exclude<keyof H, Tags<E>>, never>,
+    ): CaughtTags<T, E, H> {
+        const tag = (this.value as any)?._tag;
+        const handler = typeof tag === 'string' && Object.prototype.hasOwnProperty.call(handlers, tag)
+            ? (handlers as any)[tag]
+            : undefined;
+
+        return handler ? handler(this.value) : this as any;
+    }
+
     flatten(): Result<UnwrapResult<T>, E> {
         return new ResultErr(this.value) as Result<never, E>;
     }
 
+    transpose(): TransposedResult<T, E> {
+        return Some(this) as any;
+    }
+
     into_ok(): T {
-        throw new Error('Called Result.into_ok() on an Err value: ' + this.value);
+        return panic(new UnwrapError('Called Result.into_ok() on an Err value', this.value));
     }
 
     into_err(): E {
@@ -628,6 +1016,29 @@ export class ResultErr<T, E> implements IResult<T, E> {
     transmute(): Result<never, E> {
         return this as any;
     }
+
+    toJSON(): ResultJSON<T, E> {
+        return { $rsult: 'Err', value: this.value };
+    }
+
+    toString(): string {
+        return format_debug(this);
+    }
+
+    get [Symbol.toStringTag](): string {
+        return 'Result';
+    }
+
+    [Symbol.for('nodejs.util.inspect.custom')](depth: number, options: NodeInspectOptions, inspect?: NodeInspect): string {
+        return inspect_node(this, depth, options, inspect);
+    }
+
+    [Symbol.for('Deno.customInspect')](inspect: DenoInspect, options: unknown): string {
+        return inspect_deno(this, inspect, options);
+    }
+
+    *[Symbol.iterator](): Iterator<T> {
+    }
 }
 export const Ok = <T, E>(val: T): Result<T, never> => {
     return new ResultOk<T, E>(val) as Result<T, never>;
@@ -637,25 +1048,383 @@ export const Err = <T, E>(val: E): Result<never, E> => {
     return new ResultErr<T, E>(val) as Result<never, E>;
 };
 
+/**
+ * Calls a function, catching anything it throws as an `Err`.
+ * @param fn The function to call.
+ * @param mapError Converts the caught value, which may be anything, into a typed error. Without it,
+ * the caught value is assumed to be an `E`.
+ * @returns Ok with the return value of the function, or Err with the mapped error.
+ *
+ * Usage Example:
+ * const config = try_catch(() => JSON.parse(text), e => new ParseError(String(e))); // Result<any, ParseError>
+ */
 export const try_catch =
     <T, E = Error>(
         fn: () => T,
+        mapError: (error: unknown) => E = error => error as E,
     ): Result<T, E> => {
         try {
-            return Ok(fn());
-            // @ts-ignore (error is nominally of type any / unknown, not Error)
-        } catch (error: Error) {
-            return Err(error);
+            return new ResultOk<T, E>(fn());
+        } catch (error: unknown) {
+            return new ResultErr<T, E>(mapError(error));
         }
     };
 
+/**
+ * Calls a function which may throw or return a rejecting promise, catching both as an `Err`.
+ * @param fn The function to call, which may be async.
+ * @param mapError Converts the thrown value or rejection reason into a typed error. Without it,
+ * it is assumed to be an `E`.
+ * @returns An `AsyncResult` resolving to Ok with the resolved value, or Err with the mapped error.
+ *
+ * Usage Example:
+ * const user = try_catch_async(() => sdk.users.get(id), to_http_error); // AsyncResult<User, HttpError>
+ */
+export const try_catch_async =
+    <T, E = Error>(
+        fn: () => T | PromiseLike<T>,
+        mapError: (error: unknown) => E = error => error as E,
+    ): AsyncResult<T, E> => {
+        try {
+            return AsyncResult.from_promise<T, unknown>(Promise.resolve(fn())).map_err(mapError);
+        } catch (error: unknown) {
+            return AsyncResult.from_result(new ResultErr<T, E>(mapError(error)));
+        }
+    };
+
+/**
+ * Turns a throwing function into one with the same parameters which returns a `Result` instead.
+ * @param fn The function to wrap; it is called with the same `this` as the wrapper.
+ * @param mapError Converts anything thrown into a typed error. Without it, it is assumed to be an `E`.
+ * @returns A function returning Ok with the return value of `fn`, or Err with the mapped error.
+ *
+ * Usage Example:
+ * const parse_json = wrap(JSON.parse, e => new ParseError(String(e)));
+ * const config = parse_json(text); // Result<any, ParseError>
+ */
+export const wrap =
+    <A extends unknown[], T, E = Error>(
+        fn: (...args: A) => T,
+        mapError?: (error: unknown) => E,
+    ): ((...args: A) => Result<T, E>) =>
+        function (this: unknown, ...args: A): Result<T, E> {
+            return try_catch(() => fn.apply(this, args), mapError);
+        };
+
+/**
+ * Turns an async function which may throw or reject into one with the same parameters which returns
+ * an `AsyncResult` instead.
+ * @param fn The function to wrap; it is called with the same `this` as the wrapper.
+ * @param mapError Converts thrown values and rejection reasons into a typed error. Without it,
+ * they are assumed to be an `E`.
+ * @returns A function returning an `AsyncResult` of the resolved value of `fn`, or the mapped error.
+ *
+ * Usage Example:
+ * const get_user = wrap_async(sdk.users.get.bind(sdk.users), to_http_error);
+ * const user = await get_user(id); // Result<User, HttpError>
+ */
+export const wrap_async =
+    <A extends unknown[], T, E = Error>(
+        fn: (...args: A) => T | PromiseLike<T>,
+        mapError?: (error: unknown) => E,
+    ): ((...args: A) => AsyncResult<T, E>) =>
+        function (this: unknown, ...args: A): AsyncResult<T, E> {
+            return try_catch_async(() => fn.apply(this, args), mapError);
+        };
+
+/**
+ * Awaits a promise, catching a rejection as an `Err`.
+ * @param val The promise to await.
+ * @param mapError Converts the rejection reason into a typed error. Without it, the reason is assumed to be an `E`.
+ * @returns A promise of Ok with the resolved value, or Err with the mapped rejection reason.
+ *
+ * Usage Example:
+ * const user = await result_from_promise(fetch_user(id), to_http_error); // Result<User, HttpError>
+ */
 export const result_from_promise =
     async <T, E = Error>(
         val: Promise<T>,
+        mapError: (error: unknown) => E = error => error as E,
     ): Promise<Result<T, E>> => {
         try {
             return new ResultOk<T, never>(await val);
         } catch (error: unknown) {
-            return new ResultErr<never, E>(error as E);
+            return new ResultErr<never, E>(mapError(error));
         }
-    };
\ No newline at end of file
+    };
+
+/**
+ * The function `Result.gen` passes to its generator: delegating with `yield*` to its result unwraps a `Result`.
+ */
+export type ResultGenUnwrap = <U, F>(result: Result<U, F>) => Generator<ResultErr<never, F>, U, any>;
+
+/**
+ * The function `Result.gen_async` passes to its generator: delegating with `yield*` to its result
+ * unwraps a `Result` or an `AsyncResult`.
+ */
+export type ResultGenUnwrapAsync = <U, F>(result: Result<U, F> | AsyncResult<U, F>) => AsyncGenerator<ResultErr<never, F>, U, any>;
+
+// delegating to this evaluates to the value of an Ok, while an Err is yielded to the runner of
+// `Result.gen`, which short-circuits the generator
+function* unwrap_gen<T, E>(result: Result<T, E>): Generator<ResultErr<never, E>, T, any> {
+    if (result.is_ok()) {
+        return result.value;
+    }
+
+    // the runner stops the generator here, so it is never resumed
+    return yield result as any;
+}
+
+async function* unwrap_gen_async<T, E>(result: Result<T, E> | AsyncResult<T, E>): AsyncGenerator<ResultErr<never, E>, T, any> {
+    return yield* unwrap_gen(await result);
+}
+
+type GenErr<Y> = Y extends ResultErr<any, infer E> ? E : never;
+
+type OkOf<R> = R extends Result<infer T, any> ? T : never;
+type ErrOf<R> = R extends Result<any, infer E> ? E : never;
+
+type ResultCollection =
+    readonly [] | readonly Result<any, any>[] | Iterable<Result<any, any>> | { readonly [key: string]: Result<any, any> };
+type OkValues<R> =
+    R extends readonly any[] ? { -readonly [K in keyof R]: OkOf<R[K]> } :
+    R extends Iterable<infer I> ? OkOf<I>[] :
+    { -readonly [K in keyof R]: OkOf<R[K]> };
+type ErrValues<R> =
+    R extends readonly any[] ? ErrOf<R[number]> :
+    R extends Iterable<infer I> ? ErrOf<I> :
+    ErrOf<R[keyof R]>;
+
+export type CollectOptions = {
+    /**
+     * `'first'` (default) stops at the first `Err`, `'all'` keeps going and collects every error.
+     */
+    errors?: 'first' | 'all';
+};
+
+// options only known to be `CollectOptions`, e.g. a variable, may collect either way
+type Collected<E, O extends CollectOptions> =
+    O extends { errors: 'all' } ? E[] : O extends { errors?: 'first' } ? E : E | E[];
+
+function* enumerate<T>(items: Iterable<T>): Generator<[number, T]> {
+    let index = 0;
+
+    for (const item of items) {
+        yield [index++, item];
+    }
+}
+
+const is_iterable = (value: unknown): value is Iterable<unknown> =>
+    typeof (value as any)?.[Symbol.iterator] === 'function';
+
+const entries_of = (results: ResultCollection): Iterable<[PropertyKey, Result<any, any>]> =>
+    is_iterable(results) ? enumerate(results as Iterable<Result<any, any>>) : Object.entries(results);
+
+const collect_into = <C>(
+    target: C,
+    entries: Iterable<[PropertyKey, Result<any, any>]>,
+    options?: CollectOptions,
+): Result<C, any> => {
+    const errors: unknown[] = [];
+
+    for (const [key, result] of entries) {
+        if (result.is_ok()) {
+            (target as any)[key] = result.value;
+        } else if (options?.errors === 'all') {
+            errors.push(result.value);
+        } else {
+            return result as any;
+        }
+    }
+
+    if (errors.length > 0) {
+        return new ResultErr<C, unknown[]>(errors);
+    }
+
+    return new ResultOk<C, any>(target);
+};
+
+export const Result = {
+    /**
+     * Runs a generator in which `yield* $(result)` unwraps a `Result`, emulating Rust's `?` operator.
+     * The first `ResultErr` delegated to short-circuits the generator and becomes the returned
+     * `Result`; otherwise the generator's return value is wrapped in `Ok`. The error type is
+     * inferred as the union of all error types delegated to. Results themselves iterate over their
+     * value for spreading, so the generator is passed the function `$`, which provides the
+     * short-circuiting protocol.
+     * @param fn A generator function delegating to `$(result)` with `yield*`.
+     * @returns `Ok` with the return value of the generator, or the first `Err` encountered.
+     *
+     * Usage Example:
+     * const config = Result.gen(function* ($) {
+     *   const text = yield* $(read_file(path));  // Result<string, IoError>
+     *   const json = yield* $(parse_json(text)); // Result<unknown, ParseError>
+     *   return json;
+     * }); // Result<unknown, IoError | ParseError>
+     */
+    gen<Y extends ResultErr<any, any>, T>(fn: ($: ResultGenUnwrap) => Generator<Y, T, any>): Result<T, GenErr<Y>> {
+        const iterator = fn(unwrap_gen);
+        const step = iterator.next();
+
+        if (step.done) {
+            return new ResultOk<T, GenErr<Y>>(step.value);
+        }
+
+        // give `finally` blocks in the generator a chance to run
+        iterator.return(undefined as never);
+
+        return step.value;
+    },
+
+    /**
+     * Runs an async generator in which `yield* $(result)` unwraps a `Result` or an `AsyncResult`.
+     * Behaves like `Result.gen`, but allows awaiting in between steps.
+     * @param fn An async generator function delegating to `$(result)` with `yield*`.
+     * @returns An `AsyncResult` resolving to `Ok` with the return value, or the first `Err` encountered.
+     *
+     * Usage Example:
+     * const user = Result.gen_async(async function* ($) {
+     *   const id = yield* $(parse_id(input));      // Result<number, ParseError>
+     *   const user = yield* $(fetch_user(id));     // AsyncResult<User, HttpError>
+     *   return user;
+     * }); // AsyncResult<User, ParseError | HttpError>
+     */
+    gen_async<Y extends ResultErr<any, any>, T>(fn: ($: ResultGenUnwrapAsync) => AsyncGenerator<Y, T, any>): AsyncResult<T, GenErr<Y>> {
+        return new AsyncResult<T, GenErr<Y>>((async (): Promise<Result<T, GenErr<Y>>> => {
+            const iterator = fn(unwrap_gen_async);
+            const step = await iterator.next();
+
+            if (step.done) {
+                return new ResultOk<T, GenErr<Y>>(step.value);
+            }
+
+            await iterator.return(undefined as never);
+
+            return step.value;
+        })());
+    },
+
+    /**
+     * Turns a tuple, array, record or any other iterable of `Result`s into a `Result` of the same shape,
+     * stopping at the first `Err`. The types of heterogeneous tuples and records are preserved; other
+     * iterables, like a `Set`, are collected into an array.
+     * @param results The tuple, array, record or iterable of `Result`s.
+     * @param options Pass `{ errors: 'all' }` to collect every error into an array instead.
+     * @returns `Ok` with all values in the original shape, or the first `Err` (or all errors).
+     *
+     * Usage Example:
+     * const tuple = Result.all([Ok(1), Ok("two")]); // Ok([1, "two"]): Result<[number, string], never>
+     * const record = Result.all({ a: Ok(1), b: Err("failed") }); // Err("failed")
+     * const every = Result.all([Err("a"), Err("b")], { errors: 'all' }); // Err(["a", "b"])
+     */
+    all<R extends ResultCollection, O extends CollectOptions = {}>(
+        results: R,
+        options?: O,
+    ): Result<OkValues<R>, Collected<ErrValues<R>, O>> {
+        return collect_into((is_iterable(results) ? [] : {}) as OkValues<R>, entries_of(results), options);
+    },
+
+    /**
+     * Collects an iterable of `Result`s into a `Result` of an array, stopping at the first `Err`.
+     * @param results Any iterable of `Result`s.
+     * @param options Pass `{ errors: 'all' }` to collect every error into an array instead.
+     * @returns `Ok` with all values, or the first `Err` (or all errors).
+     *
+     * Usage Example:
+     * const numbers = Result.collect(inputs.map(parse)); // Result<number[], ParseError>
+     */
+    collect<T, E, O extends CollectOptions = {}>(
+        results: Iterable<Result<T, E>>,
+        options?: O,
+    ): Result<T[], Collected<E, O>> {
+        return collect_into<T[]>([], enumerate(results), options);
+    },
+
+    /**
+     * Maps every item to a `Result` and collects them into a `Result` of an array, stopping at the first `Err`.
+     * Items after the first `Err` are not mapped.
+     * @param items Any iterable of items.
+     * @param fn The function producing a `Result` for each item.
+     * @param options Pass `{ errors: 'all' }` to map every item and collect every error instead.
+     * @returns `Ok` with all mapped values, or the first `Err` (or all errors).
+     *
+     * Usage Example:
+     * const users = Result.traverse(ids, id => find_user(id)); // Result<User[], NotFound>
+     */
+    traverse<A, T, E, O extends CollectOptions = {}>(
+        items: Iterable<A>,
+        fn: (item: A, index: number) => Result<T, E>,
+        options?: O,
+    ): Result<T[], Collected<E, O>> {
+        const mapped = function* (): Generator<[number, Result<T, E>]> {
+            for (const [index, item] of enumerate(items)) {
+                yield [index, fn(item, index)];
+            }
+        };
+
+        return collect_into<T[]>([], mapped(), options);
+    },
+
+    /**
+     * Turns an iterable of `Result`s inside out into a `Result` of an array, stopping at the first `Err`.
+     * This is `collect` under its functional programming name, the counterpart of `traverse`:
+     * `Result.sequence(items.map(fn))` equals `Result.traverse(items, fn)`, except that every item is mapped.
+     * @param results Any iterable of `Result`s.
+     * @param options Pass `{ errors: 'all' }` to collect every error into an array instead.
+     * @returns `Ok` with all values, or the first `Err` (or all errors).
+     *
+     * Usage Example:
+     * const ports = Result.sequence(hosts.map(parse_port)); // Result<number[], ParseError>
+     */
+    sequence<T, E, O extends CollectOptions = {}>(
+        results: Iterable<Result<T, E>>,
+        options?: O,
+    ): Result<T[], Collected<E, O>> {
+        return Result.collect(results, options);
+    },
+
+    /**
+     * Splits an iterable of `Result`s into the `Ok` values and the `Err` values.
+     * @param results Any iterable of `Result`s.
+     * @returns A tuple of all `Ok` values and all `Err` values, in their original order.
+     *
+     * Usage Example:
+     * const [oks, errs] = Result.partition([Ok(1), Err("a"), Ok(2)]); // [[1, 2], ["a"]]
+     */
+    partition<T, E>(results: Iterable<Result<T, E>>): [T[], E[]] {
+        const oks: T[] = [];
+        const errs: E[] = [];
+
+        for (const result of results) {
+            if (result.is_ok()) {
+                oks.push(result.value);
+            } else {
+                errs.push(result.value);
+            }
+        }
+
+        return [oks, errs];
+    },
+
+    /**
+     * Returns the first `Ok` of an iterable of `Result`s, or `Err` with every error if there is none.
+     * @param results Any iterable of `Result`s.
+     * @returns The first `Ok`, or `Err` with all errors in their original order.
+     *
+     * Usage Example:
+     * const config = Result.any([read_env(), read_file(), read_defaults()]);
+     */
+    any<T, E>(results: Iterable<Result<T, E>>): Result<T, E[]> {
+        const errors: E[] = [];
+
+        for (const result of results) {
+            if (result.is_ok()) {
+                return result as any;
+            }
+
+            errors.push(result.value);
+        }
+
+        return new ResultErr<T, E[]>(errors);
+    },
+};
\ No newline at end of file
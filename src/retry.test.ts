@@ -0,0 +1,116 @@
+import { RetryError, constant, exponential, retry } from './retry';
+import { Result, Ok, Err } from './result';
+import { TaggedError } from './tagged';
+
+class Timeout extends TaggedError('Timeout') { }
+class NotFound extends TaggedError('NotFound') { }
+
+// a fake sleep recording the requested delays instead of waiting
+const fake_sleep = () => {
+    const delays: number[] = [];
+    const sleep = async (ms: number) => {
+        delays.push(ms);
+    };
+
+    return { delays, sleep };
+};
+
+// an operation failing with the given errors before succeeding with "done"
+const flaky = <E>(...errors: E[]) => {
+    const op = jest.fn(async (_attempt: number): Promise<Result<string, E>> =>
+        errors.length > 0 ? Err(errors.shift()!) : Ok("done"));
+
+    return op;
+};
+
+describe('retry', () => {
+    describe('backoff', () => {
+        it('constant() waits the same delay every time', () => {
+            const backoff = constant(500);
+            expect([1, 2, 3].map(backoff)).toEqual([500, 500, 500]);
+        });
+
+        it('exponential() grows the delay up to the maximum', () => {
+            const backoff = exponential({ base: 100, max: 1000 });
+            expect([1, 2, 3, 4, 5, 6].map(backoff)).toEqual([100, 200, 400, 800, 1000, 1000]);
+            expect([1, 2, 3].map(exponential({ base: 10, factor: 3 }))).toEqual([10, 30, 90]);
+        });
+
+        it('exponential() picks jittered delays between 0 and the computed delay', () => {
+            const backoff = exponential({ base: 100, jitter: true, random: () => 0.5 });
+            expect([1, 2, 3].map(backoff)).toEqual([50, 100, 200]);
+        });
+    });
+
+    describe('retry', () => {
+        it('returns the first success without waiting', async () => {
+            const { delays, sleep } = fake_sleep();
+            const op = flaky<string>();
+
+            expect(await retry(op, { sleep })).toBeOkWith("done");
+            expect(op).toHaveBeenCalledTimes(1);
+            expect(delays).toEqual([]);
+        });
+
+        it('retries with the backoff until an attempt succeeds', async () => {
+            const { delays, sleep } = fake_sleep();
+            const op = flaky("timeout", "timeout");
+
+            const result = await retry(op, { attempts: 5, backoff: exponential({ base: 100 }), sleep });
+            expect(result).toBeOkWith("done");
+            expect(op.mock.calls.map(([attempt]) => attempt)).toEqual([1, 2, 3]);
+            expect(delays).toEqual([100, 200]);
+        });
+
+        it('records the error of every attempt when the attempts run out', async () => {
+            const { delays, sleep } = fake_sleep();
+
+            const result = await retry(flaky("a", "b", "c", "d"), { attempts: 3, backoff: constant(10), sleep });
+            expect(result).toBeErrWith(expect.any(RetryError));
+
+            const error = result.unwrap_err();
+            expect(error.errors).toEqual(["a", "b", "c"]);
+            expect(error.last).toBe("c");
+            expect(error.cause).toBe("c");
+            expect(error.message).toBe('Failed after 3 attempts');
+            expect(delays).toEqual([10, 10]);
+        });
+
+        it('stops at errors which retry_if rejects', async () => {
+            const { sleep } = fake_sleep();
+            const op = flaky("timeout", "forbidden", "timeout");
+
+            const result = await retry(op, { attempts: 5, retry_if: e => e === "timeout", sleep });
+            expect(result.unwrap_err().errors).toEqual(["timeout", "forbidden"]);
+            expect(op).toHaveBeenCalledTimes(2);
+        });
+
+        it('retries only the given tags of tagged errors', async () => {
+            const { sleep } = fake_sleep();
+            const op = flaky<Timeout | NotFound>(new Timeout(), new NotFound(), new Timeout());
+
+            const result = await retry(op, { attempts: 5, retry_if: ['Timeout'], sleep });
+            expect(result.unwrap_err().errors.map(e => e._tag)).toEqual(['Timeout', 'NotFound']);
+        });
+
+        it('waits with setTimeout by default', async () => {
+            jest.useFakeTimers();
+
+            try {
+                const pending = retry(flaky("timeout"), { backoff: constant(1000) });
+                await jest.advanceTimersByTimeAsync(1000);
+                expect(await pending).toBeOkWith("done");
+            } finally {
+                jest.useRealTimers();
+            }
+        });
+
+        it('accepts synchronous operations', async () => {
+            const { sleep } = fake_sleep();
+            let calls = 0;
+
+            const result = await retry(() => ++calls < 2 ? Err("failed") : Ok(calls), { sleep });
+            expect(result).toBeOkWith(2);
+        });
+    });
+});
@@ -0,0 +1,163 @@
+import { Result, ResultOk, ResultErr } from './result';
+import { Tags } from './tagged';
+
+declare const setTimeout: (callback: () => void, ms: number) => unknown;
+
+/**
+ * Computes the delay in milliseconds before the next attempt, given the number of the attempt that
+ * just failed, starting at 1.
+ */
+export type Backoff = (attempt: number) => number;
+
+export type ExponentialBackoffOptions = {
+    /**
+     * The delay after the first attempt, in milliseconds. Defaults to 100.
+     */
+    base?: number;
+
+    /**
+     * The factor the delay grows by with every attempt. Defaults to 2.
+     */
+    factor?: number;
+
+    /**
+     * The maximum delay, in milliseconds. Defaults to no maximum.
+     */
+    max?: number;
+
+    /**
+     * Picks every delay at random between 0 and the computed delay ("full jitter"), so that many
+     * clients retrying at once do not hit a service in lockstep. Defaults to false.
+     */
+    jitter?: boolean;
+
+    /**
+     * The source of randomness for `jitter`, returning numbers in `[0, 1)`. Defaults to `Math.random`.
+     */
+    random?: () => number;
+};
+
+export type RetryOptions<E> = {
+    /**
+     * The maximum number of attempts, including the first one. Defaults to 3.
+     */
+    attempts?: number;
+
+    /**
+     * The delay between attempts. Defaults to `exponential()`.
+     */
+    backoff?: Backoff;
+
+    /**
+     * Decides whether an error is worth retrying: either a predicate, or the `_tag`s of the tagged
+     * errors to retry. Defaults to retrying every error.
+     */
+    retry_if?: ((error: E) => boolean) | readonly Tags<E>[];
+
+    /**
+     * Waits for the given number of milliseconds. Defaults to a `setTimeout`-based sleep; inject a
+     * fake one to test retries without real timers.
+     */
+    sleep?: (ms: number) => Promise<void>;
+};
+
+/**
+ * The error of a failed `retry`, recording the error of every attempt, in order.
+ * The error of the last attempt is kept as the standard `Error.cause`.
+ *
+ * Usage Example:
+ * const result = await retry(() => fetch_user(id));
+ * if (result.is_err()) {
+ *   console.log(result.value.errors); // [Timeout, Timeout, Timeout]
+ * }
+ */
+export class RetryError<E> extends Error {
+    declare readonly cause: E;
+
+    constructor(readonly errors: [E, ...E[]]) {
+        super(`Failed after ${errors.length} attempt${errors.length === 1 ? '' : 's'}`, { cause: errors[errors.length - 1] });
+        this.name = 'RetryError';
+    }
+
+    /**
+     * The error of the last attempt.
+     */
+    get last(): E {
+        return this.cause;
+    }
+}
+
+const real_sleep = (ms: number): Promise<void> =>
+    new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Waits the same delay between all attempts.
+ * @param delay The delay in milliseconds.
+ * @returns The backoff.
+ *
+ * Usage Example:
+ * await retry(() => ping(), { backoff: constant(500) });
+ */
+export const constant = (delay: number): Backoff =>
+    () => delay;
+
+/**
+ * Doubles (or multiplies by `factor`) the delay after every attempt, up to `max`, optionally with jitter.
+ * @param options The base delay, growth factor, maximum delay and jitter.
+ * @returns The backoff.
+ *
+ * Usage Example:
+ * const backoff = exponential({ base: 100, max: 2000, jitter: true });
+ * // delays of up to 100, 200, 400, 800, 1600, 2000, 2000, ... milliseconds
+ */
+export const exponential = (options: ExponentialBackoffOptions = {}): Backoff => {
+    const { base = 100, factor = 2, max = Infinity, jitter = false, random = Math.random } = options;
+
+    return attempt => {
+        const delay = Math.min(max, base * factor ** (attempt - 1));
+
+        return jitter ? random() * delay : delay;
+    };
+};
+
+/**
+ * Calls a Result-returning operation until it succeeds, the error is not worth retrying, or the
+ * attempts run out, waiting between attempts according to a backoff.
+ * @param op The operation, called with the number of the attempt, starting at 1.
+ * @param options The number of attempts, the backoff, which errors to retry and the sleep function.
+ * @returns A promise of Ok with the value of the first successful attempt, or Err with a `RetryError`
+ * recording the error of every attempt.
+ *
+ * Usage Example:
+ * const user = await retry(() => fetch_user(id), {
+ *   attempts: 5,
+ *   backoff: exponential({ base: 100, max: 2000, jitter: true }),
+ *   retry_if: ['Timeout', 'RateLimited'],
+ * }); // Result<User, RetryError<Timeout | RateLimited | NotFound>>
+ */
+export const retry = async <T, E>(
+    op: (attempt: number) => Result<T, E> | PromiseLike<Result<T, E>>,
+    options: RetryOptions<E> = {},
+): Promise<Result<T, RetryError<E>>> => {
+    const { attempts = 3, backoff = exponential(), retry_if = () => true, sleep = real_sleep } = options;
+    const should_retry = typeof retry_if === 'function'
+        ? retry_if
+        : (error: E) => (retry_if as readonly string[]).includes((error as any)?._tag);
+    const errors: E[] = [];
+
+    for (let attempt = 1; ; attempt++) {
+        const result = await op(attempt);
+
+        if (result.is_ok()) {
+            return new ResultOk<T, RetryError<E>>(result.value);
+        }
+
+        errors.push(result.value);
+
+        if (attempt >= attempts || !result.is_err_and(should_retry)) {
+            return new ResultErr<T, RetryError<E>>(new RetryError(errors as [E, ...E[]]));
+        }
+
+        await sleep(backoff(attempt));
+    }
+};
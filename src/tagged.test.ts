@@ -0,0 +1,94 @@
+import { Err, Ok, Result } from './result';
+import { assert_exhaustive, TaggedError } from './tagged';
+
+class NotFound extends TaggedError('NotFound')<{ id: string }> { }
+class Timeout extends TaggedError('Timeout') { }
+class Unavailable extends TaggedError('Unavailable') { }
+
+const find_user = (id: string): Result<string, NotFound | Timeout> => {
+    if (id === "missing") {
+        return Err(new NotFound({ id }));
+    } else if (id === "slow") {
+        return Err(new Timeout());
+    }
+
+    return Ok(`user ${id}`);
+};
+
+describe('TaggedError', () => {
+    it('creates errors carrying their tag and properties', () => {
+        const error = new NotFound({ id: "42", message: "User 42 not found" });
+        expect(error).toBeInstanceOf(Error);
+        expect(error).toBeInstanceOf(NotFound);
+        expect(error._tag).toBe("NotFound");
+        expect(error.name).toBe("NotFound");
+        expect(error.id).toBe("42");
+        expect(error.message).toBe("User 42 not found");
+    });
+
+    it('defaults the message to the tag and keeps the cause', () => {
+        const cause = new Error("socket hang up");
+        const error = new Timeout({ cause });
+        expect(error.message).toBe("Timeout");
+        expect(error.cause).toBe(cause);
+    });
+});
+
+describe('catch_tag', () => {
+    it('handles errors with the given tag', () => {
+        const result = find_user("missing").catch_tag("NotFound", e => Ok(`guest for ${e.id}`));
+        expect(result).toBeOkWith("guest for missing");
+    });
+
+    it('passes errors with other tags through', () => {
+        const result: Result<string, Timeout> = find_user("slow").catch_tag("NotFound", () => Ok("guest"));
+        expect(result.unwrap_err()).toBeInstanceOf(Timeout);
+    });
+
+    it('passes Ok values through', () => {
+        const handler = jest.fn(() => Ok("guest"));
+        expect(find_user("1").catch_tag("NotFound", handler)).toBeOkWith("user 1");
+        expect(handler).not.toHaveBeenCalled();
+    });
+
+    it('ignores errors without a tag', () => {
+        const result = (Err("plain") as Result<string, any>).catch_tag("NotFound", () => Ok("guest"));
+        expect(result).toBeErrWith("plain");
+    });
+});
+
+describe('catch_tags', () => {
+    it('dispatches to the handler for the error tag', () => {
+        const handle = (id: string) => find_user(id).catch_tags({
+            NotFound: e => Ok(`guest for ${e.id}`),
+            Timeout: e => Err(new Unavailable({ cause: e })),
+        });
+
+        expect(handle("missing")).toBeOkWith("guest for missing");
+        expect(handle("slow").unwrap_err()).toBeInstanceOf(Unavailable);
+        expect(handle("1")).toBeOkWith("user 1");
+    });
+
+    it('passes unhandled tags through', () => {
+        const result: Result<string, Timeout> = find_user("slow").catch_tags({ NotFound: () => Ok("guest") });
+        expect(result.unwrap_err()).toBeInstanceOf(Timeout);
+    });
+});
+
+describe('assert_exhaustive', () => {
+    it('accepts results whose tags are all handled', () => {
+        const result = assert_exhaustive(find_user("missing").catch_tags({
+            NotFound: () => Ok("guest"),
+            Timeout: () => Ok("cached"),
+        }));
+        expect(result).toBeOkWith("guest");
+    });
+
+    it('rejects results with unhandled tags at compile time', () => {
+        const partial = () => assert_exhaustive(
+            // @ts-expect-error Timeout is not handled
+            find_user("slow").catch_tags({ NotFound: () => Ok("guest") }),
+        );
+        expect(partial).toThrow();
+    });
+});
@@ -0,0 +1,97 @@
+import { Panic, panic } from './panic';
+import { Result } from './result';
+
+/**
+ * The `_tag` discriminants of the tagged members of `E`; any string if `E` is `any`.
+ */
+export type Tags<E> =
+    0 extends (1 & E) ? string :
+    E extends { readonly _tag: infer K } ? K extends string ? K : never : never;
+
+/**
+ * The members of `E` tagged with `K`.
+ */
+export type Tagged<E, K extends string> = Extract<E, { readonly _tag: K }>;
+
+/**
+ * Handlers for some of the tags of `E`, each receiving the error narrowed to its tag.
+ */
+export type TagHandlers<E> = {
+    [K in Tags<E>]?: (error: Tagged<E, K>) => Result<any, any>;
+};
+
+type HandlerOk<H> = { [K in keyof H]: H[K] extends (error: any) => Result<infer U, any> ? U : never }[keyof H];
+type HandlerErr<H> = { [K in keyof H]: H[K] extends (error: any) => Result<any, infer F> ? F : never }[keyof H];
+
+/**
+ * The result of `catch_tags`: the handled tags are removed from the error type, and the
+ * handlers' value and error types are added.
+ */
+export type CaughtTags<T, E, H> = Result<T | HandlerOk<H>, Exclude<E, { readonly _tag: keyof H }> | HandlerErr<H>>;
+
+export type TaggedErrorOptions = {
+    message?: string;
+    cause?: unknown;
+};
+
+export type TaggedErrorInstance<Tag extends string, A> = Error & { readonly _tag: Tag } & Readonly<A>;
+
+export interface TaggedErrorClass<Tag extends string> {
+    new <A extends object = {}>(
+        ...args: keyof A extends never ? [props?: TaggedErrorOptions] : [props: A & TaggedErrorOptions]
+    ): TaggedErrorInstance<Tag, A>;
+}
+
+/**
+ * Creates a base class for errors discriminated by a `_tag`, which `catch_tag` and
+ * `catch_tags` can narrow on. Additional properties are declared as a type argument
+ * and passed to the constructor together with an optional `message` and `cause`.
+ * @param tag The discriminant of the error class.
+ * @returns A class to extend.
+ *
+ * Usage Example:
+ * class NotFound extends TaggedError('NotFound')<{ id: string }> { }
+ * class Timeout extends TaggedError('Timeout') { }
+ *
+ * const error = new NotFound({ id: "42", message: "User 42 not found" });
+ * error._tag; // "NotFound"
+ * error.id; // "42"
+ */
+export const TaggedError = <Tag extends string>(tag: Tag): TaggedErrorClass<Tag> => {
+    class Base extends Error {
+        readonly _tag: Tag = tag;
+
+        constructor(props: TaggedErrorOptions = {}) {
+            const { message, cause, ...rest } = props;
+
+            super(message ?? tag, cause === undefined ? undefined : { cause });
+            this.name = tag;
+            Object.assign(this, rest);
+        }
+    }
+
+    return Base as any;
+};
+
+/**
+ * Asserts at compile time that every error of a `Result` has been handled, for example by
+ * `catch_tags`. Passing a `Result` whose error type is not `never` fails to compile.
+ * @param result A `Result` which can no longer be an `Err`.
+ * @returns The same `Result`.
+ * @throws Throws if the result is an `Err` nonetheless, e.g. because of an unsound cast.
+ *
+ * Usage Example:
+ * const user = assert_exhaustive(
+ *   find_user(id).catch_tags({
+ *     NotFound: () => Ok(guest),
+ *     Timeout: () => Ok(cached),
+ *   }),
+ * ); // Result<User, never>
+ */
+export const assert_exhaustive = <T>(result: Result<T, never>): Result<T, never> => {
+    if (result.is_err()) {
+        return panic(new Panic('Unhandled error in exhaustive Result', result.value));
+    }
+
+    return result;
+};
@@ -0,0 +1,60 @@
+import * as fc from 'fast-check';
+import { arb_option, arb_result, option_laws, result_laws } from './testing';
+import { Option, OptionSome } from './option';
+import { Result, ResultErr } from './result';
+
+describe('testing', () => {
+    describe('arb_option', () => {
+        it('generates both Some and None', () => {
+            const options = fc.sample(arb_option(fc.integer()), 100);
+            expect(options.some(option => option.is_some())).toBe(true);
+            expect(options.some(option => option.is_none())).toBe(true);
+        });
+    });
+
+    describe('arb_result', () => {
+        it('generates both Ok and Err', () => {
+            const results = fc.sample(arb_result(fc.integer(), fc.string()), 100);
+            expect(results.some(result => result.is_ok())).toBe(true);
+            expect(results.some(result => result.is_err())).toBe(true);
+        });
+    });
+
+    describe('option_laws', () => {
+        it('are violated by an Option whose map changes the value', () => {
+            class Broken<T> extends OptionSome<T> {
+                map<U>(fn: (arg: T) => U): Option<U> {
+                    return super.map(fn).map(value => (value as any) + 1);
+                }
+            }
+
+            const laws = option_laws(fc.integer(), {
+                arbitrary: fc.integer().map(value => new Broken(value) as Option<number>),
+            });
+            const identity = laws.find(law => law.name.startsWith('map identity'))!;
+            expect(() => fc.assert(identity.property)).toThrow();
+        });
+
+        it('accept a custom equality', () => {
+            for (const law of option_laws(fc.integer(), { eq: (a, b) => a.unwrap_or(0) === b.unwrap_or(0) })) {
+                fc.assert(law.property);
+            }
+        });
+    });
+
+    describe('result_laws', () => {
+        it('are violated by a Result whose map_err changes the error', () => {
+            class Broken<T, E> extends ResultErr<T, E> {
+                map_err<F>(fn: (arg: E) => F): Result<T, F> {
+                    return super.map_err(fn).map_err(error => `${error}!` as any);
+                }
+            }
+
+            const laws = result_laws(fc.integer(), fc.string(), {
+                arbitrary: fc.string().map(error => new Broken(error) as Result<number, string>),
+            });
+            const identity = laws.find(law => law.name.startsWith('map_err identity'))!;
+            expect(() => fc.assert(identity.property)).toThrow();
+        });
+    });
+});
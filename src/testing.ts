@@ -0,0 +1,174 @@
+import * as fc from 'fast-check';
+import { Option, Some, None } from './option';
+import { Result, Ok, Err } from './result';
+
+/**
+ * A named property which every lawful implementation satisfies.
+ */
+export interface Law {
+    name: string;
+    property: fc.IProperty<any>;
+}
+
+export type LawOptions<A> = {
+    /**
+     * The arbitrary generating the values to check, e.g. to include instances of your own subclasses.
+     * Defaults to `arb_option`/`arb_result` of the given value arbitraries.
+     */
+    arbitrary?: fc.Arbitrary<A>;
+
+    /**
+     * The equality the laws are checked with. Defaults to `eq`, which compares payloads deeply.
+     */
+    eq?: (a: A, b: A) => boolean;
+};
+
+/**
+ * Generates `Some` values of the given arbitrary, and `None`.
+ * @param value The arbitrary generating the contained values.
+ * @returns An arbitrary of `Option`s.
+ *
+ * Usage Example:
+ * fc.assert(fc.property(arb_option(fc.integer()), option => option.is_some() || option.is_none()));
+ */
+export const arb_option = <T>(value: fc.Arbitrary<T>): fc.Arbitrary<Option<T>> =>
+    fc.oneof(value.map(v => Some(v)), fc.constant(None<T>()));
+
+/**
+ * Generates `Ok` values of the first arbitrary and `Err` values of the second.
+ * @param value The arbitrary generating the Ok values.
+ * @param error The arbitrary generating the Err values.
+ * @returns An arbitrary of `Result`s.
+ *
+ * Usage Example:
+ * fc.assert(fc.property(arb_result(fc.integer(), fc.string()), result => result.is_ok() !== result.is_err()));
+ */
+export const arb_result = <T, E>(value: fc.Arbitrary<T>, error: fc.Arbitrary<E>): fc.Arbitrary<Result<T, E>> =>
+    fc.oneof(value.map(v => Ok(v) as Result<T, E>), error.map(e => Err(e) as Result<T, E>));
+
+/**
+ * The functor and monad laws for `Option`: `map` identity and composition, `and_then` left and
+ * right identity and associativity, the identities of `or` and `and`, and `None` annihilating `and`.
+ * @param value The arbitrary generating contained values.
+ * @param options A custom arbitrary of Options or a custom equality.
+ * @returns The laws, to run with `fc.assert`.
+ *
+ * Usage Example:
+ * describe('Option laws', () => {
+ *   for (const law of option_laws(fc.integer())) {
+ *     it(law.name, () => fc.assert(law.property));
+ *   }
+ * });
+ */
+export const option_laws = <T>(value: fc.Arbitrary<T>, options: LawOptions<Option<T>> = {}): Law[] => {
+    const { arbitrary = arb_option(value), eq = (a, b) => a.eq(b) } = options;
+    const fn = fc.func(value);
+    const bind = fc.func(arb_option(value));
+
+    return [
+        {
+            name: 'map identity: o.map(x => x) == o',
+            property: fc.property(arbitrary, o => eq(o.map(x => x), o)),
+        },
+        {
+            name: 'map composition: o.map(f).map(g) == o.map(x => g(f(x)))',
+            property: fc.property(arbitrary, fn, fn, (o, f, g) => eq(o.map(f).map(g), o.map(x => g(f(x))))),
+        },
+        {
+            name: 'and_then left identity: Some(a).and_then(f) == f(a)',
+            property: fc.property(value, bind, (a, f) => eq(Some(a).and_then(f), f(a))),
+        },
+        {
+            name: 'and_then right identity: o.and_then(Some) == o',
+            property: fc.property(arbitrary, o => eq(o.and_then(x => Some(x)), o)),
+        },
+        {
+            name: 'and_then associativity: o.and_then(f).and_then(g) == o.and_then(x => f(x).and_then(g))',
+            property: fc.property(arbitrary, bind, bind, (o, f, g) =>
+                eq(o.and_then(f).and_then(g), o.and_then(x => f(x).and_then(g)))),
+        },
+        {
+            name: 'or identity: o.or(None) == o and None.or(o) == o',
+            property: fc.property(arbitrary, o => eq(o.or(None<T>()), o) && eq(None<T>().or(o), o)),
+        },
+        {
+            name: 'and identity: Some(a).and(o) == o',
+            property: fc.property(value, arbitrary, (a, o) => eq(Some(a).and(o), o)),
+        },
+        {
+            name: 'and annihilation: o.and(None) == None and None.and(o) == None',
+            property: fc.property(arbitrary, o => eq(o.and(None<T>()), None<T>()) && eq(None<T>().and(o), None<T>())),
+        },
+    ];
+};
+
+/**
+ * The functor and monad laws for `Result`: `map` and `map_err` identity and composition, `and_then`
+ * left and right identity and associativity, `or_else` right identity, and the identities of `or` and `and`.
+ * @param value The arbitrary generating Ok values.
+ * @param error The arbitrary generating Err values.
+ * @param options A custom arbitrary of Results or a custom equality.
+ * @returns The laws, to run with `fc.assert`.
+ *
+ * Usage Example:
+ * describe('Result laws', () => {
+ *   for (const law of result_laws(fc.integer(), fc.string())) {
+ *     it(law.name, () => fc.assert(law.property));
+ *   }
+ * });
+ */
+export const result_laws = <T, E>(
+    value: fc.Arbitrary<T>,
+    error: fc.Arbitrary<E>,
+    options: LawOptions<Result<T, E>> = {},
+): Law[] => {
+    const { arbitrary = arb_result(value, error), eq = (a, b) => a.eq(b) } = options;
+    const fn = fc.func(value);
+    const err_fn = fc.func(error);
+    const bind = fc.func(arb_result(value, error));
+
+    return [
+        {
+            name: 'map identity: r.map(x => x) == r',
+            property: fc.property(arbitrary, r => eq(r.map(x => x), r)),
+        },
+        {
+            name: 'map composition: r.map(f).map(g) == r.map(x => g(f(x)))',
+            property: fc.property(arbitrary, fn, fn, (r, f, g) => eq(r.map(f).map(g), r.map(x => g(f(x))))),
+        },
+        {
+            name: 'map_err identity: r.map_err(e => e) == r',
+            property: fc.property(arbitrary, r => eq(r.map_err(e => e), r)),
+        },
+        {
+            name: 'map_err composition: r.map_err(f).map_err(g) == r.map_err(e => g(f(e)))',
+            property: fc.property(arbitrary, err_fn, err_fn, (r, f, g) =>
+                eq(r.map_err(f).map_err(g), r.map_err(e => g(f(e))))),
+        },
+        {
+            name: 'and_then left identity: Ok(a).and_then(f) == f(a)',
+            property: fc.property(value, bind, (a, f) => eq((Ok(a) as Result<T, E>).and_then(f), f(a))),
+        },
+        {
+            name: 'and_then right identity: r.and_then(Ok) == r',
+            property: fc.property(arbitrary, r => eq(r.and_then(x => Ok(x)), r)),
+        },
+        {
+            name: 'and_then associativity: r.and_then(f).and_then(g) == r.and_then(x => f(x).and_then(g))',
+            property: fc.property(arbitrary, bind, bind, (r, f, g) =>
+                eq(r.and_then(f).and_then(g), r.and_then(x => f(x).and_then(g)))),
+        },
+        {
+            name: 'or_else right identity: r.or_else(Err) == r',
+            property: fc.property(arbitrary, r => eq(r.or_else(e => Err(e)), r)),
+        },
+        {
+            name: 'or identity: Err(e).or(r) == r',
+            property: fc.property(error, arbitrary, (e, r) => eq((Err(e) as Result<T, E>).or(r), r)),
+        },
+        {
+            name: 'and identity: Ok(a).and(r) == r',
+            property: fc.property(value, arbitrary, (a, r) => eq((Ok(a) as Result<T, E>).and(r), r)),
+        },
+    ];
+};
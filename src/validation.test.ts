@@ -0,0 +1,107 @@
+import { Err, Ok } from './result';
+import { Invalid, Valid, Validation } from './validation';
+
+describe('Validation', () => {
+    describe('Check Methods', () => {
+        it('is_valid and is_invalid report the variant', () => {
+            expect(Valid(5).is_valid()).toBe(true);
+            expect(Valid(5).is_invalid()).toBe(false);
+            expect(Invalid("error").is_valid()).toBe(false);
+            expect(Invalid("error").is_invalid()).toBe(true);
+        });
+
+        it('Invalid takes one or more errors', () => {
+            expect(Invalid("error").unwrap_errors()).toEqual(["error"]);
+            expect(Invalid("a", "b").unwrap_errors()).toEqual(["a", "b"]);
+        });
+
+        it('Invalid keeps an array as a single error', () => {
+            expect(Invalid<number, string[]>(["a", "b"]).unwrap_errors()).toEqual([["a", "b"]]);
+            expect(Validation.combine([Invalid<number, string[]>([]), Valid(1)]).is_invalid()).toBe(true);
+        });
+    });
+
+    describe('Transform Methods', () => {
+        it('map transforms the valid value', () => {
+            expect(Valid(5).map(x => x * 2).unwrap()).toBe(10);
+            expect(Invalid<number, string>("error").map(x => x * 2).unwrap_errors()).toEqual(["error"]);
+        });
+
+        it('map_err transforms every error', () => {
+            expect(Invalid("a", "b").map_err(e => e.toUpperCase()).unwrap_errors()).toEqual(["A", "B"]);
+            expect(Valid<number, string>(5).map_err(e => e.length).unwrap()).toBe(5);
+        });
+
+        it('and_then short-circuits on Invalid', () => {
+            const fn = jest.fn(() => Valid(1));
+            expect(Invalid("error").and_then(fn).unwrap_errors()).toEqual(["error"]);
+            expect(fn).not.toHaveBeenCalled();
+            expect(Valid(5).and_then(x => x > 3 ? Invalid("too big") : Valid(x)).unwrap_errors()).toEqual(["too big"]);
+        });
+    });
+
+    describe('Combine Methods', () => {
+        it('zip combines valid values into a tuple', () => {
+            expect(Valid(1).zip(Valid("a")).unwrap()).toEqual([1, "a"]);
+        });
+
+        it('zip accumulates the errors of both validations', () => {
+            expect(Invalid("a").zip(Invalid("b")).unwrap_errors()).toEqual(["a", "b"]);
+            expect(Valid(1).zip(Invalid("b")).unwrap_errors()).toEqual(["b"]);
+            expect(Invalid("a").zip(Valid(1)).unwrap_errors()).toEqual(["a"]);
+        });
+
+        it('zip_with combines valid values with a function', () => {
+            expect(Valid(1).zip_with(Valid(2), (a, b) => a + b).unwrap()).toBe(3);
+            expect(Invalid<number, string>("a").zip_with(Invalid<number, string>("b"), (a, b) => a + b).unwrap_errors()).toEqual(["a", "b"]);
+        });
+
+        it('Validation.combine accumulates every error of a record', () => {
+            const validate_name = (name: string) => name.length > 0 ? Valid(name) : Invalid("name is empty");
+            const validate_age = (age: number) => age >= 0 ? Valid(age) : Invalid("age is negative", "age is not plausible");
+
+            const valid = Validation.combine({ name: validate_name("Ferris"), age: validate_age(8) });
+            expect(valid.unwrap()).toEqual({ name: "Ferris", age: 8 });
+
+            const invalid = Validation.combine({ name: validate_name(""), age: validate_age(-1) });
+            expect(invalid.unwrap_errors()).toEqual(["name is empty", "age is negative", "age is not plausible"]);
+        });
+
+        it('Validation.combine accumulates every error of a tuple', () => {
+            expect(Validation.combine([Valid(1), Valid("a")]).unwrap()).toEqual([1, "a"]);
+            expect(Validation.combine([Invalid("a"), Valid(1), Invalid("b")]).unwrap_errors()).toEqual(["a", "b"]);
+        });
+
+        it('Validation.zip combines its arguments into a tuple', () => {
+            expect(Validation.zip(Valid(1), Valid("a"), Valid(true)).unwrap()).toEqual([1, "a", true]);
+            expect(Validation.zip(Invalid("a"), Invalid("b")).unwrap_errors()).toEqual(["a", "b"]);
+        });
+    });
+
+    describe('Conversion Methods', () => {
+        it('to_result converts into a Result with all errors', () => {
+            expect(Valid(5).to_result()).toBeOkWith(5);
+            expect(Invalid("a", "b").to_result()).toBeErrWith(["a", "b"]);
+        });
+
+        it('Validation.from_result converts from a Result', () => {
+            expect(Validation.from_result(Ok(5)).unwrap()).toBe(5);
+            expect(Validation.from_result(Err("error")).unwrap_errors()).toEqual(["error"]);
+        });
+    });
+
+    describe('Unwrap Methods', () => {
+        it('unwrap throws for Invalid', () => {
+            expect(() => Invalid("error").unwrap()).toThrow();
+        });
+
+        it('unwrap_errors throws for Valid', () => {
+            expect(() => Valid(5).unwrap_errors()).toThrow();
+        });
+
+        it('unwrap_or returns the default for Invalid', () => {
+            expect(Invalid<number, string>("error").unwrap_or(0)).toBe(0);
+            expect(Valid(5).unwrap_or(0)).toBe(5);
+        });
+    });
+});
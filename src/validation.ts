@@ -0,0 +1,317 @@
+import { UnwrapError, panic } from './panic';
+import { Result, ResultOk, ResultErr } from './result';
+
+export type NonEmptyArray<T> = [T, ...T[]];
+
+export type Validation<T, E> =
+    ValidationValid<T, E> | ValidationInvalid<T, E>;
+
+/**
+ * A `Validation` is like a `Result` whose errors accumulate: combining several validations
+ * collects every error instead of stopping at the first one.
+ */
+export interface IValidation<T, E> {
+    /**
+     * Checks if the validation succeeded.
+     * @returns true if the validation is `ValidationValid`, otherwise false.
+     *
+     * Usage Example:
+     * const validation = Valid(5);
+     * if (validation.is_valid()) {
+     *   console.log("Valid:", validation.value);
+     * }
+     */
+    is_valid(): this is ValidationValid<T, E>;
+
+    /**
+     * Checks if the validation failed.
+     * @returns true if the validation is `ValidationInvalid`, otherwise false.
+     *
+     * Usage Example:
+     * const validation = Invalid("too short");
+     * if (validation.is_invalid()) {
+     *   console.log("Errors:", validation.errors);
+     * }
+     */
+    is_invalid(): this is ValidationInvalid<T, E>;
+
+    /**
+     * Transforms the valid value via a mapping function.
+     * @param fn A function to transform the valid value.
+     * @returns A new Validation where the valid value has been transformed.
+     *
+     * Usage Example:
+     * const validation = Valid(5).map(x => x * 2); // Valid(10)
+     */
+    map<U>(fn: (value: T) => U): Validation<U, E>;
+
+    /**
+     * Transforms every error via a mapping function.
+     * @param fn A function to transform each error.
+     * @returns A new Validation where every error has been transformed.
+     *
+     * Usage Example:
+     * const validation = Invalid("a", "b").map_err(e => e.toUpperCase()); // Invalid(["A", "B"])
+     */
+    map_err<F>(fn: (error: E) => F): Validation<T, F>;
+
+    /**
+     * Calls `fn` with the valid value. Unlike `zip`, this short-circuits, since `fn` needs the valid value.
+     * @param fn A function producing the next Validation from the valid value.
+     * @returns The result of `fn` if valid, otherwise the original errors.
+     *
+     * Usage Example:
+     * const age = parse_number(input).and_then(n => n >= 0 ? Valid(n) : Invalid("negative"));
+     */
+    and_then<U, F = E>(fn: (value: T) => Validation<U, F>): Validation<U, E | F>;
+
+    /**
+     * Combines two validations into a validation of a tuple, accumulating the errors of both.
+     * @param other The other Validation.
+     * @returns Valid with both values if both are valid, otherwise Invalid with every error.
+     *
+     * Usage Example:
+     * const both = Invalid("a").zip(Invalid("b")); // Invalid(["a", "b"])
+     */
+    zip<U, F>(other: Validation<U, F>): Validation<[T, U], E | F>;
+
+    /**
+     * Combines two validations with a function, accumulating the errors of both.
+     * @param other The other Validation.
+     * @param fn A function combining both valid values.
+     * @returns Valid with the combined value if both are valid, otherwise Invalid with every error.
+     *
+     * Usage Example:
+     * const sum = Valid(1).zip_with(Valid(2), (a, b) => a + b); // Valid(3)
+     */
+    zip_with<U, F, R>(other: Validation<U, F>, fn: (value: T, other: U) => R): Validation<R, E | F>;
+
+    /**
+     * Returns the valid value, throwing if the validation failed.
+     * @returns The valid value.
+     * @throws Throws if the validation is `ValidationInvalid`.
+     *
+     * Usage Example:
+     * Valid(5).unwrap(); // 5
+     */
+    unwrap(): T;
+
+    /**
+     * Returns the errors, throwing if the validation succeeded.
+     * @returns The non-empty array of errors.
+     * @throws Throws if the validation is `ValidationValid`.
+     *
+     * Usage Example:
+     * Invalid("too short").unwrap_errors(); // ["too short"]
+     */
+    unwrap_errors(): NonEmptyArray<E>;
+
+    /**
+     * Returns the valid value or a provided default.
+     * @param defaultVal The value to return if the validation failed.
+     * @returns The valid value or the default.
+     *
+     * Usage Example:
+     * Invalid("too short").unwrap_or(""); // ""
+     */
+    unwrap_or(defaultVal: T): T;
+
+    /**
+     * Converts the validation into a `Result` whose error is the non-empty array of errors.
+     * @returns Ok with the valid value, or Err with every error.
+     *
+     * Usage Example:
+     * Invalid("a", "b").to_result(); // Err(["a", "b"])
+     */
+    to_result(): Result<T, NonEmptyArray<E>>;
+}
+
+export class ValidationValid<T, E> implements IValidation<T, E> {
+    private readonly _tag = 'Valid' as const;
+    // @ts-ignore
+    private readonly _E: E;
+
+    constructor(readonly value: T) {
+    }
+
+    is_valid(): this is ValidationValid<T, E> {
+        return true;
+    }
+
+    is_invalid(): this is never {
+        return false;
+    }
+
+    map<U>(fn: (value: T) => U): Validation<U, E> {
+        return new ValidationValid<U, E>(fn(this.value));
+    }
+
+    map_err<F>(_fn: (error: E) => F): Validation<T, F> {
+        return this as any;
+    }
+
+    and_then<U, F = E>(fn: (value: T) => Validation<U, F>): Validation<U, E | F> {
+        return fn(this.value);
+    }
+
+    zip<U, F>(other: Validation<U, F>): Validation<[T, U], E | F> {
+        return this.zip_with(other, (value, other): [T, U] => [value, other]);
+    }
+
+    zip_with<U, F, R>(other: Validation<U, F>, fn: (value: T, other: U) => R): Validation<R, E | F> {
+        if (other.is_valid()) {
+            return new ValidationValid<R, E | F>(fn(this.value, other.value));
+        }
+
+        return other as any;
+    }
+
+    unwrap(): T {
+        return this.value;
+    }
+
+    unwrap_errors(): never {
+        return panic(new UnwrapError('Called Validation.unwrap_errors() on a Valid value', this.value));
+    }
+
+    unwrap_or(_defaultVal: T): T {
+        return this.value;
+    }
+
+    to_result(): Result<T, NonEmptyArray<E>> {
+        return new ResultOk<T, NonEmptyArray<E>>(this.value);
+    }
+}
+
+export class ValidationInvalid<T, E> implements IValidation<T, E> {
+    private readonly _tag = 'Invalid' as const;
+    // @ts-ignore
+    private readonly _T: T;
+
+    constructor(readonly errors: NonEmptyArray<E>) {
+    }
+
+    is_valid(): this is never {
+        return false;
+    }
+
+    is_invalid(): this is ValidationInvalid<T, E> {
+        return true;
+    }
+
+    map<U>(_fn: (value: T) => U): Validation<U, E> {
+        return this as any;
+    }
+
+    map_err<F>(fn: (error: E) => F): Validation<T, F> {
+        return new ValidationInvalid<T, F>(this.errors.map(fn) as NonEmptyArray<F>);
+    }
+
+    and_then<U, F = E>(_fn: (value: T) => Validation<U, F>): Validation<U, E | F> {
+        return this as any;
+    }
+
+    zip<U, F>(other: Validation<U, F>): Validation<[T, U], E | F> {
+        return this.zip_with(other, (value, other): [T, U] => [value, other]);
+    }
+
+    zip_with<U, F, R>(other: Validation<U, F>, _fn: (value: T, other: U) => R): Validation<R, E | F> {
+        if (other.is_invalid()) {
+            return new ValidationInvalid<R, E | F>([...this.errors, ...other.errors]);
+        }
+
+        return this as any;
+    }
+
+    unwrap(): never {
+        return panic(new UnwrapError('Called Validation.unwrap() on an Invalid value', this.errors));
+    }
+
+    unwrap_errors(): NonEmptyArray<E> {
+        return this.errors;
+    }
+
+    unwrap_or(defaultVal: T): T {
+        return defaultVal;
+    }
+
+    to_result(): Result<T, NonEmptyArray<E>> {
+        return new ResultErr<T, NonEmptyArray<E>>(this.errors);
+    }
+}
+
+export const Valid = <T, E = never>(val: T): Validation<T, E> => {
+    return new ValidationValid<T, E>(val);
+};
+
+export const Invalid = <T = never, E = unknown>(error: E, ...errors: E[]): Validation<T, E> => {
+    return new ValidationInvalid<T, E>([error, ...errors]);
+};
+
+type ValidOf<V> = V extends Validation<infer T, any> ? T : never;
+type InvalidOf<V> = V extends Validation<any, infer E> ? E : never;
+
+type ValidationCollection = readonly [] | readonly Validation<any, any>[] | { readonly [key: string]: Validation<any, any> };
+type ValidValues<V> = { -readonly [K in keyof V]: ValidOf<V[K]> };
+type InvalidValues<V> = V extends readonly any[] ? InvalidOf<V[number]> : InvalidOf<V[keyof V]>;
+
+export const Validation = {
+    /**
+     * Combines a tuple, array or record of validations into a validation of the same shape,
+     * accumulating every error. The types of heterogeneous tuples and records are preserved.
+     * @param validations The tuple, array or record of validations.
+     * @returns Valid with all values in the original shape, or Invalid with every error.
+     *
+     * Usage Example:
+     * const form = Validation.combine({
+     *   name: validate_name(input.name),
+     *   age: validate_age(input.age),
+     * }); // Validation<{ name: string, age: number }, NameError | AgeError>
+     */
+    combine<V extends ValidationCollection>(validations: V): Validation<ValidValues<V>, InvalidValues<V>> {
+        const values: any = Array.isArray(validations) ? [] : {};
+        const errors: InvalidValues<V>[] = [];
+
+        for (const [key, validation] of Object.entries(validations)) {
+            if (validation.is_valid()) {
+                values[key] = validation.value;
+            } else {
+                errors.push(...validation.errors);
+            }
+        }
+
+        if (errors.length > 0) {
+            return new ValidationInvalid(errors as NonEmptyArray<InvalidValues<V>>);
+        }
+
+        return new ValidationValid(values);
+    },
+
+    /**
+     * Combines validations into a validation of a tuple, accumulating every error.
+     * @param validations The validations to combine.
+     * @returns Valid with a tuple of all values, or Invalid with every error.
+     *
+     * Usage Example:
+     * const point = Validation.zip(validate_x(x), validate_y(y)); // Validation<[number, number], CoordError>
+     */
+    zip<V extends readonly Validation<any, any>[]>(...validations: V): Validation<ValidValues<V>, InvalidValues<V>> {
+        return Validation.combine(validations);
+    },
+
+    /**
+     * Converts a `Result` into a validation, turning its error into a single-element array.
+     * @param result The `Result` to convert.
+     * @returns Valid with the Ok value, or Invalid with the Err value.
+     *
+     * Usage Example:
+     * const validation = Validation.from_result(Err("too short")); // Invalid(["too short"])
+     */
+    from_result<T, E>(result: Result<T, E>): Validation<T, E> {
+        if (result.is_ok()) {
+            return new ValidationValid<T, E>(result.value);
+        }
+
+        return new ValidationInvalid<T, E>([result.value]);
+    },
+};